@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ApiRequestError } from '../ai-chat';
+import {
+    createApiKeySelector,
+    getProviderApiKeys,
+    reportApiKeyResult,
+    resetApiKeyHealth,
+    selectApiKey
+} from '../utils/apiKeyPool';
+
+const PROVIDER = 'openai';
+const KEYS = ['key-a', 'key-b', 'key-c'];
+
+function apiError(status: number, retryAfter?: number): ApiRequestError {
+    return Object.assign(new Error(`Request failed: ${status}\n\ndetail`), { status, retryAfter });
+}
+
+describe('apiKeyPool', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    });
+
+    afterEach(() => {
+        resetApiKeyHealth(PROVIDER);
+        vi.useRealTimers();
+    });
+
+    it('collects the primary and extra keys without blanks or duplicates', () => {
+        expect(getProviderApiKeys({ apiKey: ' key-a ', apiKeys: ['', 'key-b', 'key-a'] })).toEqual([
+            'key-a',
+            'key-b'
+        ]);
+        expect(getProviderApiKeys(null)).toEqual([]);
+    });
+
+    it('rotates through the keys in order', () => {
+        const selected = [1, 2, 3, 4].map(() => selectApiKey(PROVIDER, KEYS));
+        expect(selected).toEqual(['key-a', 'key-b', 'key-c', 'key-a']);
+    });
+
+    it('skips a rate-limited key until its cooldown ends', () => {
+        expect(reportApiKeyResult(PROVIDER, KEYS, 'key-a', apiError(429, 5000))).toBe(true);
+        expect([1, 2, 3].map(() => selectApiKey(PROVIDER, KEYS))).not.toContain('key-a');
+
+        vi.advanceTimersByTime(5000);
+        expect([1, 2, 3].map(() => selectApiKey(PROVIDER, KEYS))).toContain('key-a');
+    });
+
+    it('uses the default cooldowns without Retry-After', () => {
+        reportApiKeyResult(PROVIDER, KEYS, 'key-a', apiError(429));
+        reportApiKeyResult(PROVIDER, KEYS, 'key-b', apiError(401));
+
+        vi.advanceTimersByTime(60 * 1000);
+        expect([1, 2].map(() => selectApiKey(PROVIDER, ['key-a', 'key-b']))).toEqual([
+            'key-a',
+            'key-a'
+        ]);
+
+        vi.advanceTimersByTime(9 * 60 * 1000);
+        expect([1, 2].map(() => selectApiKey(PROVIDER, ['key-a', 'key-b']))).toContain('key-b');
+    });
+
+    it('ignores errors that are not about the key', () => {
+        expect(reportApiKeyResult(PROVIDER, KEYS, 'key-a', apiError(500))).toBe(false);
+        expect(selectApiKey(PROVIDER, KEYS)).toBe('key-a');
+    });
+
+    it('reports whether another key is still available', () => {
+        expect(reportApiKeyResult(PROVIDER, KEYS, 'key-a', apiError(403))).toBe(true);
+        expect(reportApiKeyResult(PROVIDER, KEYS, 'key-b', apiError(403))).toBe(true);
+        expect(reportApiKeyResult(PROVIDER, KEYS, 'key-c', apiError(403))).toBe(false);
+    });
+
+    it('picks the key that recovers first when all keys are disabled', () => {
+        reportApiKeyResult(PROVIDER, KEYS, 'key-a', apiError(429, 30000));
+        reportApiKeyResult(PROVIDER, KEYS, 'key-b', apiError(429, 10000));
+        reportApiKeyResult(PROVIDER, KEYS, 'key-c', apiError(429, 20000));
+        expect(selectApiKey(PROVIDER, KEYS)).toBe('key-b');
+    });
+
+    it('re-enables a key after a successful request', () => {
+        reportApiKeyResult(PROVIDER, KEYS, 'key-a', apiError(401));
+        reportApiKeyResult(PROVIDER, KEYS, 'key-a');
+        expect(selectApiKey(PROVIDER, KEYS)).toBe('key-a');
+    });
+
+    it('prefers the key rate-limited longest ago with the least-limited strategy', () => {
+        reportApiKeyResult(PROVIDER, KEYS, 'key-a', apiError(429, 1000));
+        vi.advanceTimersByTime(1000);
+        reportApiKeyResult(PROVIDER, KEYS, 'key-b', apiError(429, 1000));
+        vi.advanceTimersByTime(1000);
+
+        // key-c 从未被限流，其次是更早被限流的 key-a
+        expect(selectApiKey(PROVIDER, KEYS, 'least-limited')).toBe('key-c');
+        vi.advanceTimersByTime(1);
+        reportApiKeyResult(PROVIDER, KEYS, 'key-c', apiError(429, 1000));
+        expect(selectApiKey(PROVIDER, KEYS, 'least-limited')).toBe('key-a');
+    });
+
+    it('leaves providers with a single key to the request options', () => {
+        const configs: Record<string, any> = {
+            openai: { apiKey: 'key-a', apiKeys: ['key-b'] },
+            gemini: { apiKey: 'key-a' }
+        };
+        const selector = createApiKeySelector(provider => configs[provider]);
+        expect(selector.select('gemini')).toBeUndefined();
+        expect(selector.report('gemini', 'key-a', apiError(429))).toBe(false);
+        expect(selector.select('openai')).toBe('key-a');
+        expect(selector.report('openai', 'key-a', apiError(429))).toBe(true);
+        expect(selector.select('openai')).toBe('key-b');
+    });
+});
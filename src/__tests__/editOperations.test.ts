@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { parseEditResponse } from '../utils/editOperations';
+
+const BLOCK_ID = '20240101120000-abc1234';
+
+function jsonBlock(data: any): string {
+    return `好的，我会修改这段内容：\n\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``;
+}
+
+function operationsResponse(...operations: any[]): string {
+    return jsonBlock({ editOperations: operations });
+}
+
+describe('parseEditResponse', () => {
+    it('parses operations and fills in the defaults', () => {
+        const result = parseEditResponse(
+            operationsResponse(
+                { blockId: ` ${BLOCK_ID} `, newContent: '新内容' },
+                { operationType: 'insert', blockId: BLOCK_ID, position: 'before', newContent: '插入' }
+            ),
+            false
+        );
+        expect(result.error).toBeUndefined();
+        expect(result.operations).toMatchObject([
+            { operationType: 'update', blockId: BLOCK_ID, newContent: '新内容', position: 'after' },
+            { operationType: 'insert', blockId: BLOCK_ID, newContent: '插入', position: 'before' }
+        ]);
+    });
+
+    it('reads the explanation from structured output', () => {
+        const result = parseEditResponse(
+            JSON.stringify({
+                explanation: '修改了标题',
+                editOperations: [{ blockId: BLOCK_ID, newContent: '标题' }]
+            }),
+            true
+        );
+        expect(result.error).toBeUndefined();
+        expect(result.explanation).toBe('修改了标题');
+        expect(result.operations).toHaveLength(1);
+    });
+
+    it('treats a plain answer as no edit unless structured output was requested', () => {
+        expect(parseEditResponse('这段内容不需要修改。', false)).toEqual({
+            explanation: '',
+            operations: []
+        });
+        expect(parseEditResponse('这段内容不需要修改。', true).error).toEqual({ code: 'notJson' });
+    });
+
+    it('ignores unrelated JSON in a plain answer', () => {
+        const result = parseEditResponse(jsonBlock({ name: 'example' }), false);
+        expect(result.error).toBeUndefined();
+        expect(result.operations).toEqual([]);
+    });
+
+    it('reports invalid JSON only when it looks like edit operations', () => {
+        const broken = '```json\n{ "editOperations": [ { "blockId": } ] }\n```';
+        const result = parseEditResponse(broken, false);
+        expect(result.error?.code).toBe('invalidJson');
+        expect(result.error?.detail).toBeTruthy();
+
+        expect(parseEditResponse('```json\n{ "name": }\n```', false).error).toBeUndefined();
+    });
+
+    it('reports missing operations', () => {
+        expect(parseEditResponse(jsonBlock({ explanation: '说明' }), true).error).toEqual({
+            code: 'missingOperations',
+            path: 'editOperations'
+        });
+        expect(parseEditResponse(jsonBlock({ editOperations: {} }), false).error?.code).toBe(
+            'missingOperations'
+        );
+    });
+
+    it('reports the first invalid operation and drops all operations', () => {
+        const result = parseEditResponse(
+            operationsResponse(
+                { blockId: BLOCK_ID, newContent: '有效' },
+                { blockId: 'not-a-block-id', newContent: '无效' }
+            ),
+            false
+        );
+        expect(result.operations).toEqual([]);
+        expect(result.error).toEqual({
+            code: 'invalidBlockId',
+            path: 'editOperations[1].blockId',
+            index: 2,
+            value: 'not-a-block-id'
+        });
+    });
+
+    it.each([
+        ['notObject', 'editOperations[0]', 'update'],
+        [
+            'invalidOperationType',
+            'editOperations[0].operationType',
+            { operationType: 'delete', blockId: BLOCK_ID, newContent: '' }
+        ],
+        [
+            'invalidPosition',
+            'editOperations[0].position',
+            { blockId: BLOCK_ID, position: 'inside', newContent: '' }
+        ],
+        ['missingContent', 'editOperations[0].newContent', { blockId: BLOCK_ID }]
+    ])('reports %s', (code, path, operation) => {
+        const error = parseEditResponse(operationsResponse(operation), false).error;
+        expect(error).toMatchObject({ code, path, index: 1 });
+    });
+});
@@ -0,0 +1,154 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// 消息提示和翻译依赖思源运行时提供的 siyuan 模块
+const api = vi.hoisted(() => ({ pushMsg: vi.fn(), pushErrMsg: vi.fn() }));
+vi.mock('../api', () => api);
+vi.mock('../utils/i18n', () => ({ t: (key: string) => key }));
+
+const PASSPHRASE = 'correct horse battery';
+
+type KeyVault = typeof import('../utils/keyVault');
+
+// 每次重新导入模块，模拟重启后只剩 settings.json 中保存的内容
+async function loadKeyVault(answers: Array<string | null>): Promise<{
+    keyVault: KeyVault;
+    prompt: ReturnType<typeof vi.fn>;
+}> {
+    vi.resetModules();
+    const keyVault = await import('../utils/keyVault');
+    const prompt = vi.fn(async () => answers.shift() ?? null);
+    keyVault.setPassphrasePrompt(prompt);
+    return { keyVault, prompt };
+}
+
+function createSettings(): any {
+    return {
+        temperature: 0.7,
+        aiProviders: {
+            openai: {
+                apiKey: 'sk-openai-primary',
+                apiKeys: ['sk-openai-extra'],
+                customApiUrl: '',
+                advancedConfig: {
+                    customHeaders: [
+                        { name: 'X-Team', value: 'notes' },
+                        { name: 'X-Token', value: 'header-secret', secret: true }
+                    ]
+                }
+            },
+            gemini: { apiKey: '', customApiUrl: '' },
+            customProviders: [{ id: 'local', name: 'Local', apiKey: 'sk-custom' }]
+        }
+    };
+}
+
+// 模拟写入后再读取 settings.json
+function roundTrip(settings: any): any {
+    return JSON.parse(JSON.stringify(settings));
+}
+
+describe('keyVault', () => {
+    beforeEach(() => {
+        api.pushMsg.mockClear();
+        api.pushErrMsg.mockClear();
+    });
+
+    it('keeps saving settings with plaintext keys when the passphrase is skipped', async () => {
+        const { keyVault, prompt } = await loadKeyVault([null]);
+        const settings = createSettings();
+
+        const saved = await keyVault.sealSettings(settings);
+        expect(saved).toEqual(createSettings());
+        expect(saved[keyVault.VAULT_SETTINGS_KEY]).toBeUndefined();
+        expect(api.pushMsg).toHaveBeenCalledWith('keyVault.noPassphrasePlainText');
+
+        // 取消后本次会话不再弹出对话框，也不再重复提示
+        settings.temperature = 0.3;
+        expect((await keyVault.sealSettings(settings)).temperature).toBe(0.3);
+        expect(prompt).toHaveBeenCalledTimes(1);
+        expect(api.pushMsg).toHaveBeenCalledTimes(1);
+
+        const loaded = roundTrip(saved);
+        expect(await keyVault.openSettings(loaded)).toBe(false);
+        expect(loaded.aiProviders.openai.apiKey).toBe('sk-openai-primary');
+        expect(keyVault.isKeyVaultLocked()).toBe(false);
+    });
+
+    it('saves settings without secrets as they are', async () => {
+        const { keyVault, prompt } = await loadKeyVault([]);
+        const settings = { aiProviders: { openai: { apiKey: '' } } };
+        expect(await keyVault.sealSettings(settings)).toBe(settings);
+        expect(prompt).not.toHaveBeenCalled();
+    });
+
+    it('encrypts the keys and restores them after unlocking', async () => {
+        const first = await loadKeyVault([PASSPHRASE]);
+        const settings = createSettings();
+        const sealed = roundTrip(await first.keyVault.sealSettings(settings));
+        expect(first.prompt).toHaveBeenCalledWith('create', undefined);
+
+        // 保存的副本中不含密钥，内存中的设置不受影响
+        expect(sealed.aiProviders.openai.apiKey).toBe('');
+        expect(sealed.aiProviders.openai.apiKeys).toEqual(['']);
+        expect(sealed.aiProviders.openai.advancedConfig.customHeaders).toEqual([
+            { name: 'X-Team', value: 'notes' },
+            { name: 'X-Token', value: '', secret: true }
+        ]);
+        expect(sealed.aiProviders.customProviders[0].apiKey).toBe('');
+        expect(JSON.stringify(sealed)).not.toContain('sk-');
+        expect(sealed[first.keyVault.VAULT_SETTINGS_KEY].data).toBeTruthy();
+        expect(settings.aiProviders.openai.apiKey).toBe('sk-openai-primary');
+
+        // 重启后未解锁：密钥为空
+        const second = await loadKeyVault(['wrong passphrase', PASSPHRASE]);
+        const locked = roundTrip(sealed);
+        expect(await second.keyVault.openSettings(locked)).toBe(false);
+        expect(second.keyVault.isKeyVaultLocked()).toBe(true);
+        expect(locked.aiProviders.openai.apiKey).toBe('');
+        expect(locked[second.keyVault.VAULT_SETTINGS_KEY]).toBeUndefined();
+
+        // 密码错误时重新询问
+        expect(await second.keyVault.unlockKeyVault()).toBe(true);
+        expect(second.prompt).toHaveBeenNthCalledWith(2, 'unlock', 'keyVault.wrongPassphrase');
+        expect(second.keyVault.isKeyVaultLocked()).toBe(false);
+
+        const unlocked = roundTrip(sealed);
+        expect(await second.keyVault.openSettings(unlocked)).toBe(false);
+        expect(unlocked).toEqual(createSettings());
+    });
+
+    it('keeps the existing vault while locked and merges new keys after unlocking', async () => {
+        const first = await loadKeyVault([PASSPHRASE]);
+        const sealed = roundTrip(await first.keyVault.sealSettings(createSettings()));
+
+        const second = await loadKeyVault([null, PASSPHRASE]);
+        const settings = roundTrip(sealed);
+        await second.keyVault.openSettings(settings);
+        settings.aiProviders.gemini.apiKey = 'gemini-new-key';
+
+        // 取消解锁：原有密文原样保存，新填写的密钥暂不保存
+        const lockedSave = roundTrip(await second.keyVault.sealSettings(settings));
+        expect(lockedSave[second.keyVault.VAULT_SETTINGS_KEY]).toEqual(
+            sealed[second.keyVault.VAULT_SETTINGS_KEY]
+        );
+        expect(lockedSave.aiProviders.gemini.apiKey).toBe('');
+        expect(api.pushErrMsg).toHaveBeenCalledWith('keyVault.lockedNotSaved');
+
+        // 解锁后重新读取：原有密钥和未解锁时填写的密钥都填回设置，需要重新保存
+        expect(await second.keyVault.unlockKeyVault()).toBe(true);
+        const reloaded = roundTrip(lockedSave);
+        expect(await second.keyVault.openSettings(reloaded)).toBe(true);
+        expect(reloaded.aiProviders.openai.apiKey).toBe('sk-openai-primary');
+        expect(reloaded.aiProviders.gemini.apiKey).toBe('gemini-new-key');
+
+        const resealed = roundTrip(await second.keyVault.sealSettings(reloaded));
+        expect(JSON.stringify(resealed)).not.toContain('gemini-new-key');
+        const third = await loadKeyVault([PASSPHRASE]);
+        await third.keyVault.openSettings(roundTrip(resealed));
+        await third.keyVault.unlockKeyVault();
+        const restored = roundTrip(resealed);
+        await third.keyVault.openSettings(restored);
+        expect(restored.aiProviders.gemini.apiKey).toBe('gemini-new-key');
+        expect(restored.aiProviders.customProviders[0].apiKey).toBe('sk-custom');
+    });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// 内核转发依赖思源运行时提供的 siyuan 模块，预览不会用到
+vi.mock('../utils/kernelProxy', () => ({ kernelProxyFetch: vi.fn() }));
+
+import { buildChatRequestBodyPreview, type ApiFormat } from '../ai-chat';
+import {
+    buildParameterBody,
+    getModelRequestBody,
+    getParameterFields,
+    mergeRequestBody,
+    type ModelParameters
+} from '../utils/modelParameters';
+
+const PARAMETERS: ModelParameters = {
+    topP: 0.9,
+    topK: 40,
+    frequencyPenalty: 0.5,
+    presencePenalty: -0.5,
+    seed: 42,
+    stop: ['END', ''],
+    verbosity: 'low',
+    safetySettings: { HARM_CATEGORY_HARASSMENT: 'BLOCK_NONE' }
+};
+
+describe('buildParameterBody', () => {
+    it.each<[ApiFormat, any]>([
+        [
+            'openai',
+            {
+                top_p: 0.9,
+                frequency_penalty: 0.5,
+                presence_penalty: -0.5,
+                seed: 42,
+                stop: ['END'],
+                verbosity: 'low'
+            }
+        ],
+        ['openai-responses', { top_p: 0.9, text: { verbosity: 'low' } }],
+        [
+            'gemini',
+            {
+                generationConfig: {
+                    topP: 0.9,
+                    topK: 40,
+                    frequencyPenalty: 0.5,
+                    presencePenalty: -0.5,
+                    seed: 42,
+                    stopSequences: ['END']
+                },
+                safetySettings: [{ category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' }]
+            }
+        ],
+        ['anthropic', { top_p: 0.9, top_k: 40, stop_sequences: ['END'] }]
+    ])('maps the parameters for the %s format', (format, expected) => {
+        expect(buildParameterBody(format, PARAMETERS)).toEqual(expected);
+    });
+
+    it('leaves out empty parameters', () => {
+        expect(
+            buildParameterBody('openai', {
+                topP: Number.NaN,
+                seed: 0,
+                stop: [''],
+                safetySettings: {}
+            })
+        ).toEqual({ seed: 0 });
+        expect(buildParameterBody('gemini', undefined)).toEqual({});
+    });
+
+    it('does not send top_k to Claude with thinking enabled', () => {
+        const context = { modelId: 'claude-sonnet-4-20250514', enableThinking: true };
+        expect(buildParameterBody('anthropic', { topK: 40 }, context)).toEqual({});
+        const withoutThinking = { ...context, enableThinking: false };
+        expect(buildParameterBody('anthropic', { topK: 40 }, withoutThinking)).toEqual({ top_k: 40 });
+    });
+
+    it.each([
+        ['claude-sonnet-4-20250514', true],
+        ['claude-3-7-sonnet-20250219', true],
+        ['claude-opus-4-1-20250805', false],
+        ['claude-sonnet-4-5', false],
+        ['claude-haiku-4-5-20251001', false],
+        ['anthropic/claude-opus-4.5', false]
+    ])('sends top_p to %s alongside temperature: %s', (modelId, sendsTopP) => {
+        const body = buildParameterBody('anthropic', { topP: 0.9 }, { modelId });
+        expect('top_p' in body).toBe(sendsTopP);
+        expect(getParameterFields('anthropic', modelId).some(field => field.key === 'topP')).toBe(
+            sendsTopP
+        );
+    });
+
+    it('shows the parameters each format supports', () => {
+        expect(getParameterFields('openai').map(field => field.key)).not.toContain('topK');
+        expect(getParameterFields('gemini').map(field => field.key)).toContain('safetySettings');
+        expect(getParameterFields('openai-responses').map(field => field.key)).toEqual([
+            'topP',
+            'verbosity'
+        ]);
+    });
+});
+
+describe('mergeRequestBody', () => {
+    it('merges objects deeply and lets the source win', () => {
+        expect(
+            mergeRequestBody(
+                { generationConfig: { topP: 0.9, topK: 40 }, stop: ['A'] },
+                { generationConfig: { topK: 10 }, stop: ['B', 'C'], extra: true }
+            )
+        ).toEqual({ generationConfig: { topP: 0.9, topK: 10 }, stop: ['B', 'C'], extra: true });
+    });
+
+    it('replaces values of a different type', () => {
+        expect(mergeRequestBody({ text: { verbosity: 'low' } }, { text: 'plain' })).toEqual({
+            text: 'plain'
+        });
+        expect(mergeRequestBody({ top_p: 0.9 }, undefined)).toEqual({ top_p: 0.9 });
+    });
+
+    it('lets the custom body override the parameter editor', () => {
+        const customBody = { top_p: 0.5, top_k: 20 };
+        const body = getModelRequestBody('openai', { topP: 0.9, seed: 1 }, customBody);
+        expect(body).toEqual({ top_p: 0.5, seed: 1, top_k: 20 });
+    });
+});
+
+describe('buildChatRequestBodyPreview', () => {
+    it('builds the same body the request would send', async () => {
+        const body = await buildChatRequestBodyPreview('anthropic', {
+            apiKey: '',
+            model: 'claude-sonnet-4-5',
+            messages: [{ role: 'user', content: 'Hello' }],
+            maxTokens: 1024,
+            parameters: { topP: 0.9, topK: 40 },
+            customBody: { metadata: { user_id: 'preview' } }
+        });
+        expect(body).toMatchObject({
+            model: 'claude-sonnet-4-5',
+            max_tokens: 1024,
+            temperature: 1,
+            top_k: 40,
+            metadata: { user_id: 'preview' }
+        });
+        expect(body).not.toHaveProperty('top_p');
+    });
+
+    it('previews custom providers without an API URL', async () => {
+        const body = await buildChatRequestBodyPreview('my-gateway', {
+            apiKey: '',
+            model: 'llama-3',
+            messages: [{ role: 'user', content: 'Hello' }],
+            parameters: { topK: 40, seed: 7 }
+        });
+        expect(body).toMatchObject({ model: 'llama-3', seed: 7, stream: true });
+        expect(body).not.toHaveProperty('top_k');
+    });
+});
@@ -0,0 +1,215 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { describe, expect, it, vi } from 'vitest';
+
+// 内核转发依赖思源运行时提供的 siyuan 模块，解析器不会用到
+vi.mock('../utils/kernelProxy', () => ({ kernelProxyFetch: vi.fn() }));
+
+import { parseSSE, type ApiFormat, type ChatStreamEvent } from '../ai-chat';
+
+/**
+ * 读取录制的 SSE 响应，按固定字节数切分为数据块，模拟网络分包（会切断行和多字节字符）
+ */
+function fixtureStream(name: string, chunkSize = 7): ReadableStream<Uint8Array> {
+    const bytes = readFileSync(resolve(__dirname, 'fixtures/sse', `${name}.sse`));
+    let offset = 0;
+    return new ReadableStream<Uint8Array>({
+        pull(controller) {
+            if (offset >= bytes.length) {
+                controller.close();
+                return;
+            }
+            controller.enqueue(new Uint8Array(bytes.subarray(offset, offset + chunkSize)));
+            offset += chunkSize;
+        }
+    });
+}
+
+async function collect(
+    format: ApiFormat,
+    enableThinking = true,
+    chunkSize?: number
+): Promise<ChatStreamEvent[]> {
+    const events: ChatStreamEvent[] = [];
+    for await (const event of parseSSE(format, fixtureStream(format, chunkSize), { enableThinking })) {
+        events.push(event);
+    }
+    return events;
+}
+
+function ofType<T extends ChatStreamEvent['type']>(events: ChatStreamEvent[], type: T) {
+    return events.filter(
+        (event): event is Extract<ChatStreamEvent, { type: T }> => event.type === type
+    );
+}
+
+function joinText(events: { text: string }[]): string {
+    return events.map(event => event.text).join('');
+}
+
+function toolArguments(events: ChatStreamEvent[]): string {
+    return ofType(events, 'tool_call_delta')
+        .map(event => event.arguments)
+        .join('');
+}
+
+describe('parseSSE', () => {
+    it('parses OpenAI chat completions streams', async () => {
+        const events = await collect('openai');
+
+        expect(joinText(ofType(events, 'text'))).toBe('我来查询一下。');
+        expect(joinText(ofType(events, 'thinking'))).toBe('用户想知道北京的天气');
+        expect(ofType(events, 'tool_call_delta')[0]).toMatchObject({
+            index: 0,
+            id: 'call_weather',
+            name: 'get_weather'
+        });
+        expect(toolArguments(events)).toBe('{"city":"北京"}');
+        expect(ofType(events, 'tool_call_done')[0].toolCalls).toEqual([
+            {
+                id: 'call_weather',
+                type: 'function',
+                function: { name: 'get_weather', arguments: '{"city":"北京"}' }
+            }
+        ]);
+        expect(ofType(events, 'usage')[0].usage).toEqual({
+            inputTokens: 120,
+            outputTokens: 45,
+            cachedInputTokens: 64,
+            reasoningTokens: 20
+        });
+        expect(events[events.length - 1]).toEqual({
+            type: 'finish',
+            reason: 'tool_calls',
+            text: '我来查询一下。'
+        });
+    });
+
+    it('parses OpenAI Responses streams', async () => {
+        const events = await collect('openai-responses');
+
+        expect(joinText(ofType(events, 'text'))).toBe('我来查询一下。');
+        expect(joinText(ofType(events, 'thinking'))).toBe('**Checking weather**\n\nCalling the tool.');
+        expect(ofType(events, 'tool_call_delta')[0]).toMatchObject({
+            index: 2,
+            id: 'call_weather',
+            name: 'get_weather'
+        });
+        expect(toolArguments(events)).toBe('{"city":"北京"}');
+        expect(ofType(events, 'tool_call_done')[0].toolCalls).toEqual([
+            {
+                id: 'call_weather',
+                type: 'function',
+                function: { name: 'get_weather', arguments: '{"city":"北京"}' }
+            }
+        ]);
+        expect(ofType(events, 'usage')[0].usage).toEqual({
+            inputTokens: 120,
+            outputTokens: 45,
+            cachedInputTokens: 64,
+            reasoningTokens: 20
+        });
+        expect(events[events.length - 1]).toEqual({
+            type: 'finish',
+            reason: 'tool_calls',
+            text: '我来查询一下。'
+        });
+    });
+
+    it('parses Gemini streams', async () => {
+        const events = await collect('gemini');
+
+        expect(joinText(ofType(events, 'text'))).toBe('我来查询一下。');
+        expect(joinText(ofType(events, 'thinking'))).toBe('用户想知道北京的天气');
+        expect(ofType(events, 'tool_call_delta')).toHaveLength(1);
+        expect(ofType(events, 'tool_call_delta')[0]).toMatchObject({
+            index: 0,
+            name: 'get_weather',
+            arguments: '{"city":"北京"}'
+        });
+        const [toolCall] = ofType(events, 'tool_call_done')[0].toolCalls;
+        expect(toolCall.function).toEqual({ name: 'get_weather', arguments: '{"city":"北京"}' });
+        expect(toolCall.thoughtSignature).toBe('c2lnbmF0dXJl');
+        expect(ofType(events, 'usage')[0].usage).toEqual({
+            inputTokens: 120,
+            outputTokens: 45,
+            cachedInputTokens: 64,
+            reasoningTokens: 20
+        });
+        expect(events[events.length - 1]).toEqual({
+            type: 'finish',
+            reason: 'tool_calls',
+            text: '我来查询一下。'
+        });
+    });
+
+    it('parses Anthropic streams', async () => {
+        const events = await collect('anthropic');
+
+        expect(joinText(ofType(events, 'text'))).toBe('我来查询一下。');
+        expect(joinText(ofType(events, 'thinking'))).toBe('用户想知道北京的天气');
+        expect(ofType(events, 'tool_call_delta')[0]).toMatchObject({
+            index: 2,
+            id: 'toolu_weather',
+            name: 'get_weather'
+        });
+        expect(toolArguments(events)).toBe('{"city":"北京"}');
+        const [toolCall] = ofType(events, 'tool_call_done')[0].toolCalls;
+        expect(toolCall).toMatchObject({
+            id: 'toolu_weather',
+            type: 'function',
+            function: { name: 'get_weather', arguments: '{"city":"北京"}' }
+        });
+        // 思考块附加在第一个工具调用上，下一轮请求时回传
+        expect(toolCall.thinkingBlocks).toEqual([
+            { type: 'thinking', thinking: '用户想知道北京的天气', signature: 'c2lnbmF0dXJl' }
+        ]);
+        expect(ofType(events, 'usage')[0].usage).toEqual({
+            inputTokens: 120,
+            outputTokens: 45,
+            cachedInputTokens: 64,
+            cacheWriteInputTokens: 0
+        });
+        expect(events[events.length - 1]).toEqual({
+            type: 'finish',
+            reason: 'tool_calls',
+            text: '我来查询一下。'
+        });
+    });
+
+    it.each<ApiFormat>(['openai', 'openai-responses'])(
+        'omits thinking events when thinking is disabled (%s)',
+        async format => {
+            const events = await collect(format, false);
+
+            expect(ofType(events, 'thinking')).toHaveLength(0);
+            expect(joinText(ofType(events, 'text'))).toBe('我来查询一下。');
+        }
+    );
+
+    it.each<ApiFormat>(['openai', 'openai-responses', 'gemini', 'anthropic'])(
+        'does not depend on how the stream is chunked (%s)',
+        async format => {
+            // Gemini 没有返回函数调用 ID 时按时间生成
+            vi.spyOn(Date, 'now').mockReturnValue(1760000000000);
+            const whole = await collect(format, true, Number.MAX_SAFE_INTEGER);
+            const bytewise = await collect(format, true, 1);
+
+            expect(bytewise).toEqual(whole);
+            vi.restoreAllMocks();
+        }
+    );
+
+    it('passes every data payload to onRawEvent', async () => {
+        const payloads: string[] = [];
+        const parser = parseSSE('anthropic', fixtureStream('anthropic'), {
+            onRawEvent: data => payloads.push(data)
+        });
+        for await (const _ of parser) {
+            // 只检查原始数据
+        }
+
+        expect(payloads).toHaveLength(16);
+        expect(JSON.parse(payloads[0]).type).toBe('message_start');
+    });
+});
@@ -0,0 +1,140 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { ContextDocument, Message } from '../ai-chat';
+import {
+    countMessagesTokens,
+    countTokens,
+    fitMessagesToTokenBudget,
+    loadTokenizer,
+    type MessageContextDocuments
+} from '../utils/tokenizer';
+
+const MODEL = 'gpt-4o';
+
+function contextDocument(title: string, content: string): ContextDocument {
+    return { id: `${title}-id`, title, content, type: 'doc' };
+}
+
+// 与侧栏生成的上下文文本格式相同
+function renderContext(documents: ContextDocument[]): string {
+    if (documents.length === 0) return '';
+    const text = documents
+        .map(
+            doc =>
+                `## 文档: ${doc.title}\n\n**BlockID**: \`${doc.id}\`\n\n\`\`\`markdown\n${doc.content}\n\`\`\``
+        )
+        .join('\n\n---\n\n');
+    return `\n\n---\n\n以下是相关内容作为上下文：\n\n${text}`;
+}
+
+function withContext(documents: ContextDocument[]): MessageContextDocuments {
+    return { documents, render: renderContext };
+}
+
+function userMessageWithContext(documents: ContextDocument[]): Message {
+    return { role: 'user', content: `总结这些笔记${renderContext(documents)}` };
+}
+
+describe('fitMessagesToTokenBudget', () => {
+    beforeAll(() => loadTokenizer(MODEL));
+
+    const small = contextDocument('small', '短内容');
+    const medium = contextDocument('medium', '中等长度的内容。'.repeat(40));
+    const large = contextDocument('large', '很长的文档内容，包含大量文字。'.repeat(200));
+
+    it('drops the oldest context documents first and reports them', () => {
+        const documents = [small, large, medium];
+        const message = userMessageWithContext(documents);
+        const withoutOldest = userMessageWithContext([medium]);
+        const budget = countMessagesTokens([withoutOldest], MODEL) + 10;
+
+        const result = fitMessagesToTokenBudget([message], budget, MODEL, withContext(documents));
+
+        expect(result.droppedDocuments).toEqual(['small', 'large']);
+        expect(result.truncated).toBe(false);
+        expect(result.messages[0].content).toBe(withoutOldest.content);
+        expect(result.tokens).toBeLessThanOrEqual(budget);
+    });
+
+    it('removes the context header when every document is dropped', () => {
+        const documents = [small, medium];
+        const message = userMessageWithContext(documents);
+        const budget = countMessagesTokens([{ role: 'user', content: '总结这些笔记' }], MODEL) + 10;
+
+        const result = fitMessagesToTokenBudget([message], budget, MODEL, withContext(documents));
+
+        expect(result.droppedDocuments).toEqual(['small', 'medium']);
+        expect(result.messages[0].content).toBe('总结这些笔记');
+    });
+
+    it('drops documents from the text part of multimodal messages', () => {
+        const documents = [large, small];
+        const text = userMessageWithContext(documents).content as string;
+        const message: Message = {
+            role: 'user',
+            content: [
+                { type: 'text', text },
+                { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } }
+            ]
+        };
+        const budget = countMessagesTokens([message], MODEL) - 100;
+
+        const result = fitMessagesToTokenBudget([message], budget, MODEL, withContext(documents));
+
+        expect(result.droppedDocuments).toEqual(['large']);
+        expect(result.messages[0].content).toEqual([
+            { type: 'text', text: userMessageWithContext([small]).content },
+            message.content[1]
+        ]);
+    });
+
+    it('truncates instead when the message does not end with the given documents', () => {
+        const message: Message = { role: 'user', content: `${large.content}\n\n总结这些笔记` };
+        const budget = countMessagesTokens([message], MODEL) - 100;
+
+        const result = fitMessagesToTokenBudget([message], budget, MODEL, withContext([large]));
+
+        expect(result.droppedDocuments).toEqual([]);
+        expect(result.truncated).toBe(true);
+        expect(result.tokens).toBeLessThanOrEqual(budget);
+    });
+
+    it('closes an open code fence when truncating inside a code block', () => {
+        const message: Message = {
+            role: 'user',
+            content: `看看这段代码\n\n\`\`\`ts\n${'const value = 1;\n'.repeat(500)}\`\`\``
+        };
+
+        const result = fitMessagesToTokenBudget([message], 200, MODEL);
+        const content = result.messages[0].content as string;
+
+        expect(result.truncated).toBe(true);
+        expect(content.match(/^```/gm)).toHaveLength(2);
+        expect(result.tokens).toBeLessThanOrEqual(200);
+    });
+
+    it('drops old messages before touching the last message', () => {
+        const messages: Message[] = [
+            { role: 'user', content: '旧问题'.repeat(200) },
+            { role: 'assistant', content: '旧回答'.repeat(200) },
+            userMessageWithContext([small])
+        ];
+        const budget = countMessagesTokens([messages[2]], MODEL) + 10;
+
+        const result = fitMessagesToTokenBudget(messages, budget, MODEL);
+
+        expect(result.droppedCount).toBe(2);
+        expect(result.droppedDocuments).toEqual([]);
+        expect(result.messages).toEqual([messages[2]]);
+    });
+});
+
+describe('countTokens', () => {
+    it('estimates by characters until the tokenizer is loaded', async () => {
+        // gpt-4 使用 cl100k_base，上面的用例只加载了 o200k_base
+        expect(countTokens('你好 world', 'gpt-4')).toBe(4);
+
+        await loadTokenizer('gpt-4');
+
+        expect(countTokens('hello world', 'gpt-4')).toBe(2);
+    });
+});
@@ -4,6 +4,16 @@
  * 支持图片生成功能
  */
 
+import {
+    getModelRegistryInfo,
+    type ModelCapabilities,
+    type ThinkingBudgetRange
+} from './utils/modelRegistry';
+import { countTokens, countMessagesTokens } from './utils/tokenizer';
+import { kernelProxyFetch } from './utils/kernelProxy';
+import { getModelRequestBody, type ModelParameters } from './utils/modelParameters';
+import type { EditValidationError } from './utils/editOperations';
+
 export interface ToolCall {
     id: string;
     type: 'function';
@@ -11,24 +21,46 @@ export interface ToolCall {
         name: string;
         arguments: string;
     };
+    thoughtSignature?: string; // Gemini 思考签名（多轮工具调用时需要回传）
+    thinkingBlocks?: ClaudeThinkingBlock[]; // Claude 思考块（含签名），附加在每轮的第一个工具调用上
+}
+
+// Claude 思考块（工具调用时需要原样回传）
+export interface ClaudeThinkingBlock {
+    type: 'thinking' | 'redacted_thinking';
+    thinking?: string;
+    signature?: string;
+    data?: string; // redacted_thinking 的加密内容
 }
 
 export interface MessageAttachment {
-    type: 'image' | 'file';
+    type: 'image' | 'file' | 'document'; // document 为 PDF、Word、Excel、PowerPoint 等文档
     name: string;
-    data: string; // base64 或 URL
+    data: string; // base64 或 URL（文档为 data URL）
     mimeType?: string;
     path?: string; // 插件内存储的资源路径
     isWebPage?: boolean; // 标记是否为网页附件
     url?: string; // 原始URL（网页附件时使用）
+    text?: string; // 文档在本地提取的文本
+    pageCount?: number; // 文档页数（PowerPoint 为幻灯片数）
+}
+
+// 文档内容：支持的模型直接发送 PDF，其他模型发送本地提取的文本
+export interface MessageFile {
+    filename: string;
+    file_data?: string; // data URL（data:application/pdf;base64,...）
+    mime_type?: string;
+    text?: string; // 本地提取的文本
+    page_count?: number;
 }
 
 export interface MessageContent {
-    type: 'text' | 'image_url';
+    type: 'text' | 'image_url' | 'file';
     text?: string;
     image_url?: {
         url: string;
     };
+    file?: MessageFile;
 }
 
 export interface EditOperation {
@@ -58,6 +90,8 @@ export interface Message {
     thinking?: string; // 思考过程内容
     reasoning_content?: string; // DeepSeek 思考模式下的思维链内容
     editOperations?: EditOperation[]; // 编辑操作
+    editError?: EditValidationError | string; // 编辑指令校验失败的原因（旧版本保存的是文本）
+    cacheBreakpoint?: boolean; // 在此消息之后设置提示词缓存断点（如上下文文档所在的消息）
     tool_calls?: ToolCall[]; // Tool Calls
     tool_call_id?: string; // Tool 结果的 call_id
     name?: string; // Tool 的名称
@@ -73,8 +107,35 @@ export interface Message {
         isSelected?: boolean; // 是否被选择
         thinkingCollapsed?: boolean; // 思考内容是否折叠
         thinkingEnabled?: boolean; // 用户是否开启思考模式
+        fallbackModel?: FallbackModelInfo; // 实际回答的备用模型
+        usage?: MessageUsage; // token 用量
     }>; // 多模型响应
     generatedImages?: GeneratedImageData[]; // 生成的图片数据（用于多轮生图）
+    fallbackModel?: FallbackModelInfo; // 主模型请求失败后实际回答的备用模型
+    usage?: MessageUsage; // token 用量
+}
+
+// 一次请求的 token 用量
+export interface TokenUsage {
+    inputTokens: number; // 输入 token 数（包含命中缓存的部分）
+    outputTokens: number; // 输出 token 数（包含思考部分）
+    cachedInputTokens?: number; // 命中缓存的输入 token 数
+    cacheWriteInputTokens?: number; // 写入缓存的输入 token 数（Claude）
+    reasoningTokens?: number; // 思考 token 数
+}
+
+// 消息上记录的用量（Agent 模式下为多轮请求的累计值）
+export interface MessageUsage extends TokenUsage {
+    provider: string;
+    modelId: string;
+    cost?: number; // 费用（美元），未配置价格时为空
+}
+
+// 实际回答的备用模型信息
+export interface FallbackModelInfo {
+    provider: string;
+    modelId: string;
+    modelName: string;
 }
 
 // 生成的图片数据接口（用于Gemini多轮生图）
@@ -85,6 +146,14 @@ export interface GeneratedImageData {
     path?: string; // 插件内存储的资源路径
 }
 
+// 结构化输出的 JSON Schema
+// OpenAI 映射为 response_format: json_schema，Gemini 映射为 responseSchema，Claude 映射为强制调用的工具
+export interface ResponseSchema {
+    name: string; // Schema 名称（Claude 中作为工具名），只能包含字母、数字、下划线和连字符
+    description?: string;
+    schema: any; // JSON Schema 对象
+}
+
 // 思考努力程度类型
 export type ThinkingEffort = 'low' | 'medium' | 'high' | 'auto';
 
@@ -108,17 +177,142 @@ export interface ChatOptions {
     onToolCall?: (toolCall: ToolCall) => void; // Tool Call 回调
     onToolCallComplete?: (toolCalls: ToolCall[]) => void; // Tool Calls 完成回调
     customBody?: any; // 自定义请求体参数
+    parameters?: ModelParameters; // 参数编辑器中设置的模型参数，由 streamChat 按接口格式转换后与 customBody 合并
+    apiVersion?: string; // Azure OpenAI 部署的 API 版本
+    apiFormat?: ApiFormat; // 模型单独指定的接口格式，优先于平台设置
     enableImageGeneration?: boolean; // 是否启用图片生成
     onImageGenerated?: (images: GeneratedImageData[]) => void; // 图片生成回调
+    onUsage?: (usage: TokenUsage) => void; // token 用量回调，在 onComplete 之前调用
+    responseSchema?: ResponseSchema; // 结构化输出，onChunk/onComplete 返回符合 Schema 的 JSON 文本
+    onRequest?: (request: ChatRequestInfo) => void; // 发送请求前调用，包含最终的请求体
+    onRawEvent?: (data: string) => void; // 收到的原始数据（流式响应的每个 SSE data，非流式响应的完整 JSON）
+    onRequestEnd?: (error?: Error) => void; // 请求结束时调用（成功、失败或中断），失败时传入错误
+    promptCache?: boolean; // 启用提示词缓存（Claude 的 cache_control、Gemini 的 cachedContents）
+    promptCacheKey?: string; // 缓存复用的键（如会话 ID），同一会话的多轮请求复用 Gemini 显式缓存
+    transport?: FetchLike; // 发送请求的方式，由 streamChat 根据平台的高级设置（内核转发、自定义请求头和查询参数）设置
+}
+
+// 统一的结束原因（由各平台的 finish_reason / stop_reason / finishReason 归一化而来）
+export type ChatFinishReason = 'stop' | 'length' | 'tool_calls' | 'content_filter' | 'aborted' | 'other';
+
+// streamChat 产生的事件，各接口格式的流式和非流式响应统一转换为这些事件
+export type ChatStreamEvent =
+    | { type: 'text'; text: string } // 正文片段
+    | { type: 'thinking'; text: string } // 思考片段（仅在启用思考模式时产生）
+    | { type: 'tool_call_delta'; index: number; id?: string; name?: string; arguments: string } // 工具调用参数片段
+    | { type: 'tool_call_done'; toolCalls: ToolCall[] } // 本轮完整的工具调用
+    | { type: 'image'; images: GeneratedImageData[] } // 生成的图片
+    | { type: 'usage'; usage: TokenUsage } // token 用量
+    | { type: 'finish'; reason: ChatFinishReason; text: string }; // 结束，text 为完整正文
+
+// 实际发送的请求（未脱敏，记录前需要移除 API Key）
+export interface ChatRequestInfo {
+    url: string;
+    headers: Record<string, string>;
+    body: any;
 }
 
+// 请求检查器：在 chat 发送前包装请求参数，用于记录请求和原始响应
+export type ChatInspector = (provider: string, options: ChatOptions) => ChatOptions;
+
 export interface ModelInfo {
     id: string;
     name: string;
     provider: string;
+    contextLength?: number; // 上下文窗口大小（本地模型自动发现时提供）
+    capabilities?: ModelCapabilities; // 模型元数据中声明的能力（本地模型自动发现时提供）
+}
+
+export type AIProvider = 'gemini' | 'anthropic' | 'deepseek' | 'openai' | 'moonshot' | 'volcano' | 'Achuan' | 'local' | 'azure' | 'custom';
+
+// 请求使用的接口格式（wire format），由平台配置决定，而不是根据模型ID猜测
+// openai-responses 为 OpenAI Responses API（/v1/responses）
+export type ApiFormat = 'openai' | 'openai-responses' | 'gemini' | 'anthropic';
+
+// 平台附加的请求头或查询参数
+export interface CustomRequestParam {
+    name: string;
+    value: string;
+    secret?: boolean; // 凭据类的值，在界面中隐藏
+}
+
+// 平台的高级配置（随 chat/fetchModels/generateImage 一起传递）
+export interface AdvancedConfig {
+    customModelsUrl?: string; // 自定义模型列表 URL
+    customChatUrl?: string;   // 自定义对话 URL
+    apiFormat?: ApiFormat;    // 接口格式，留空使用平台默认格式
+    useKernelProxy?: boolean; // 通过思源内核的 forwardProxy 转发请求（绕过 CORS，流式响应在结束后一次性返回）
+    customHeaders?: CustomRequestParam[];     // 附加到该平台所有请求的请求头（同名时覆盖默认请求头）
+    customQueryParams?: CustomRequestParam[]; // 附加到该平台所有请求 URL 的查询参数
+    nativeDocuments?: boolean; // 设为 false 时不原生发送 PDF，始终发送提取的文本（用于不支持文档的第三方网关）
+}
+
+// 与 fetch 相同签名的请求方式
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * 过滤掉未填写名称的请求头或查询参数
+ */
+function getCustomParams(params?: CustomRequestParam[]): CustomRequestParam[] {
+    return (params || []).filter(param => param.name && param.name.trim());
+}
+
+/**
+ * 在 URL 上附加查询参数（同名参数覆盖）
+ */
+export function appendQueryParams(url: string, params?: CustomRequestParam[]): string {
+    const customParams = getCustomParams(params);
+    if (customParams.length === 0) return url;
+    try {
+        const target = new URL(url);
+        for (const param of customParams) {
+            target.searchParams.set(param.name.trim(), param.value);
+        }
+        return target.toString();
+    } catch {
+        return url;
+    }
+}
+
+/**
+ * 获取平台使用的请求方式：启用内核转发时通过 forwardProxy 发送，否则直接 fetch
+ * 平台的自定义请求头和查询参数在这里统一附加，不会出现在请求记录中
+ */
+export function getProviderFetch(advancedConfig?: AdvancedConfig): FetchLike {
+    const baseFetch: FetchLike = advancedConfig?.useKernelProxy
+        ? kernelProxyFetch
+        : (url, init) => fetch(url, init);
+    const customHeaders = getCustomParams(advancedConfig?.customHeaders);
+    const customQueryParams = getCustomParams(advancedConfig?.customQueryParams);
+    if (customHeaders.length === 0 && customQueryParams.length === 0) {
+        return baseFetch;
+    }
+
+    return (url, init = {}) => {
+        const headers = new Headers(init.headers);
+        for (const header of customHeaders) {
+            headers.set(header.name.trim(), header.value);
+        }
+        return baseFetch(appendQueryParams(url, customQueryParams), { ...init, headers });
+    };
+}
+
+/**
+ * 平台是否需要通过 getProviderFetch 发送请求（内核转发或附加请求头、查询参数）
+ */
+function hasCustomTransport(advancedConfig?: AdvancedConfig): boolean {
+    return !!(
+        advancedConfig?.useKernelProxy ||
+        getCustomParams(advancedConfig?.customHeaders).length > 0 ||
+        getCustomParams(advancedConfig?.customQueryParams).length > 0
+    );
 }
 
-export type AIProvider = 'gemini' | 'deepseek' | 'openai' | 'moonshot' | 'volcano' | 'Achuan' | 'custom';
+// Azure OpenAI 默认 API 版本（部署未单独设置时使用）
+export const AZURE_DEFAULT_API_VERSION = '2024-10-21';
+// Azure OpenAI 的 Responses 接口需要 2025-03-01-preview 及以上版本
+const AZURE_RESPONSES_MIN_API_VERSION = '2025-03-01-preview';
+const AZURE_RESPONSES_API_VERSION = '2025-04-01-preview';
 
 // 思考努力程度到比例的映射（用于计算 token 预算）
 export const EFFORT_RATIO: Record<ThinkingEffort, number> = {
@@ -128,20 +322,8 @@ export const EFFORT_RATIO: Record<ThinkingEffort, number> = {
     auto: 0.5  // auto 使用中等比例
 };
 
-// Claude 模型的 token 限制配置
-interface TokenLimitConfig {
-    min: number;
-    max: number;
-}
-
-const CLAUDE_TOKEN_LIMITS: Record<string, TokenLimitConfig> = {
-    'claude-3-7-sonnet': { min: 1024, max: 32768 },
-    'claude-3-5-sonnet': { min: 1024, max: 16384 },
-    'claude-sonnet-4': { min: 1024, max: 32768 },
-    'claude-opus-4': { min: 1024, max: 32768 },
-    // 默认值
-    'default': { min: 1024, max: 32768 }
-};
+// 模型信息库未声明思考预算范围时使用的默认值
+const DEFAULT_THINKING_BUDGET: ThinkingBudgetRange = { min: 1024, max: 32768 };
 
 // Gemini 支持思考模式的模型正则表达式
 // 匹配: gemini-2.5-*, gemini-3-*, gemini-flash-latest, gemini-pro-latest 等
@@ -159,22 +341,6 @@ function getLowerBaseModelName(modelId: string, separator: string = '/'): string
     return parts[parts.length - 1].toLowerCase();
 }
 
-/**
- * 查找 Claude 模型的 token 限制配置
- */
-function findClaudeTokenLimit(modelId: string): TokenLimitConfig {
-    const baseModelId = getLowerBaseModelName(modelId, '/');
-
-    // 按优先级匹配
-    for (const [key, config] of Object.entries(CLAUDE_TOKEN_LIMITS)) {
-        if (key !== 'default' && baseModelId.includes(key)) {
-            return config;
-        }
-    }
-
-    return CLAUDE_TOKEN_LIMITS['default'];
-}
-
 /**
  * 检测模型是否是支持思考模式的 Claude 模型
  */
@@ -183,14 +349,6 @@ export function isSupportedThinkingClaudeModel(modelId: string): boolean {
     return CLAUDE_THINKING_MODEL_REGEX.test(baseModelId);
 }
 
-/**
- * 检测模型是否是 Claude 模型（用于判断是否使用 Claude 原生 API）
- */
-export function isClaudeModel(modelId: string): boolean {
-    const baseModelId = getLowerBaseModelName(modelId, '/');
-    return CLAUDE_THINKING_MODEL_REGEX.test(baseModelId);
-}
-
 /**
  * 检测模型是否是支持思考模式的 Gemini 模型
  */
@@ -223,7 +381,7 @@ export function calculateClaudeThinkingBudget(
     maxTokens?: number
 ): number {
     const DEFAULT_MAX_TOKENS = 8192;
-    const tokenLimit = findClaudeTokenLimit(modelId);
+    const tokenLimit = getModelRegistryInfo(modelId).thinkingBudget || DEFAULT_THINKING_BUDGET;
     const effortRatio = EFFORT_RATIO[reasoningEffort];
 
     // 计算基础预算
@@ -245,9 +403,38 @@ interface ProviderConfig {
     modelsEndpoint: string;
     chatEndpoint: string;
     apiKeyHeader: string;
+    apiFormat: ApiFormat; // 平台默认的接口格式
     websiteUrl?: string; // 平台官网链接
+    requiresApiKey?: boolean; // 是否需要 API Key（默认需要）
 }
 
+// Anthropic API 版本
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// 各接口格式的默认端点（用于切换接口格式的平台）
+const API_FORMAT_ENDPOINTS: Record<ApiFormat, Pick<ProviderConfig, 'modelsEndpoint' | 'chatEndpoint' | 'apiKeyHeader'>> = {
+    openai: {
+        modelsEndpoint: '/v1/models',
+        chatEndpoint: '/v1/chat/completions',
+        apiKeyHeader: 'Authorization'
+    },
+    'openai-responses': {
+        modelsEndpoint: '/v1/models',
+        chatEndpoint: '/v1/responses',
+        apiKeyHeader: 'Authorization'
+    },
+    gemini: {
+        modelsEndpoint: '/v1beta/models',
+        chatEndpoint: '/v1beta/models/{model}:streamGenerateContent',
+        apiKeyHeader: 'x-goog-api-key'
+    },
+    anthropic: {
+        modelsEndpoint: '/v1/models',
+        chatEndpoint: '/v1/messages',
+        apiKeyHeader: 'x-api-key'
+    }
+};
+
 // 预定义的AI平台配置
 const PROVIDER_CONFIGS: Record<AIProvider, ProviderConfig> = {
     gemini: {
@@ -256,14 +443,25 @@ const PROVIDER_CONFIGS: Record<AIProvider, ProviderConfig> = {
         modelsEndpoint: '/v1beta/models',
         chatEndpoint: '/v1beta/models/{model}:streamGenerateContent',
         apiKeyHeader: 'x-goog-api-key',
+        apiFormat: 'gemini',
         websiteUrl: 'https://aistudio.google.com/apikey'
     },
+    anthropic: {
+        name: 'Anthropic',
+        baseUrl: 'https://api.anthropic.com',
+        modelsEndpoint: '/v1/models',
+        chatEndpoint: '/v1/messages',
+        apiKeyHeader: 'x-api-key',
+        apiFormat: 'anthropic',
+        websiteUrl: 'https://console.anthropic.com/settings/keys'
+    },
     deepseek: {
         name: 'DeepSeek',
         baseUrl: 'https://api.deepseek.com',
         modelsEndpoint: '/v1/models',
         chatEndpoint: '/v1/chat/completions',
         apiKeyHeader: 'Authorization',
+        apiFormat: 'openai',
         websiteUrl: 'https://platform.deepseek.com/'
     },
     openai: {
@@ -272,6 +470,7 @@ const PROVIDER_CONFIGS: Record<AIProvider, ProviderConfig> = {
         modelsEndpoint: '/v1/models',
         chatEndpoint: '/v1/chat/completions',
         apiKeyHeader: 'Authorization',
+        apiFormat: 'openai',
         websiteUrl: 'https://platform.openai.com/'
     },
     moonshot: {
@@ -280,6 +479,7 @@ const PROVIDER_CONFIGS: Record<AIProvider, ProviderConfig> = {
         modelsEndpoint: '/v1/models',
         chatEndpoint: '/v1/chat/completions',
         apiKeyHeader: 'Authorization',
+        apiFormat: 'openai',
         websiteUrl: 'https://platform.moonshot.cn/'
     },
     volcano: {
@@ -288,6 +488,7 @@ const PROVIDER_CONFIGS: Record<AIProvider, ProviderConfig> = {
         modelsEndpoint: '/api/v3/models',
         chatEndpoint: '/api/v3/chat/completions',
         apiKeyHeader: 'Authorization',
+        apiFormat: 'openai',
         websiteUrl: 'https://console.volcengine.com/ark'
     },
     Achuan: {
@@ -296,17 +497,41 @@ const PROVIDER_CONFIGS: Record<AIProvider, ProviderConfig> = {
         modelsEndpoint: '/v1/models',
         chatEndpoint: '/v1/chat/completions',
         apiKeyHeader: 'Authorization',
+        apiFormat: 'openai',
         websiteUrl: 'https://gpt.achuan-2.top/register?aff=ZndO'
     },
+    azure: {
+        name: 'Azure OpenAI',
+        baseUrl: '',
+        modelsEndpoint: '/openai/deployments',
+        chatEndpoint: '/openai/deployments/{model}/chat/completions',
+        apiKeyHeader: 'api-key',
+        apiFormat: 'openai',
+        websiteUrl: 'https://portal.azure.com/#view/Microsoft_Azure_ProjectOxford/CognitiveServicesHub/~/OpenAI'
+    },
+    local: {
+        name: 'Local',
+        baseUrl: 'http://localhost:11434',
+        modelsEndpoint: '/v1/models',
+        chatEndpoint: '/v1/chat/completions',
+        apiKeyHeader: 'Authorization',
+        apiFormat: 'openai',
+        websiteUrl: 'https://ollama.com/',
+        requiresApiKey: false
+    },
     custom: {
         name: 'Custom',
         baseUrl: '',
         modelsEndpoint: '/v1/models',
         chatEndpoint: '/v1/chat/completions',
-        apiKeyHeader: 'Authorization'
+        apiKeyHeader: 'Authorization',
+        apiFormat: 'openai'
     }
 };
 
+// 内置平台ID列表（不含 custom）
+const BUILT_IN_PROVIDERS = Object.keys(PROVIDER_CONFIGS).filter(id => id !== 'custom');
+
 /**
  * 获取平台配置信息
  */
@@ -314,6 +539,249 @@ export function getProviderConfig(provider: AIProvider): ProviderConfig {
     return PROVIDER_CONFIGS[provider];
 }
 
+/**
+ * 平台是否需要 API Key（本地模型服务不需要）
+ */
+export function isApiKeyRequired(provider: string): boolean {
+    return PROVIDER_CONFIGS[provider as AIProvider]?.requiresApiKey !== false;
+}
+
+/**
+ * 获取平台实际使用的接口格式
+ * 优先使用用户在高级设置中选择的格式，否则使用平台默认格式
+ */
+export function getApiFormat(provider: string, advancedConfig?: AdvancedConfig): ApiFormat {
+    if (advancedConfig?.apiFormat) {
+        return advancedConfig.apiFormat;
+    }
+    const config = PROVIDER_CONFIGS[provider as AIProvider];
+    return config ? config.apiFormat : 'openai';
+}
+
+/**
+ * 解析平台配置：内置平台使用自身配置，自定义平台使用 custom 配置；
+ * 如果接口格式与平台默认格式不同，使用该格式的默认端点
+ */
+function resolveProviderConfig(
+    provider: string,
+    advancedConfig?: AdvancedConfig
+): { config: ProviderConfig; isBuiltIn: boolean; apiFormat: ApiFormat } {
+    const isBuiltIn = BUILT_IN_PROVIDERS.includes(provider);
+    const baseConfig = isBuiltIn ? PROVIDER_CONFIGS[provider as AIProvider] : PROVIDER_CONFIGS.custom;
+    const apiFormat = getApiFormat(provider, advancedConfig);
+    let config: ProviderConfig;
+    if (apiFormat === baseConfig.apiFormat) {
+        config = baseConfig;
+    } else if (baseConfig.apiFormat === 'openai' && apiFormat === 'openai-responses') {
+        // OpenAI 兼容平台的 Responses 接口与对话接口同级（如 /api/v3/responses）
+        config = {
+            ...baseConfig,
+            chatEndpoint: baseConfig.chatEndpoint.replace(/chat\/completions$/, 'responses'),
+            apiFormat
+        };
+    } else {
+        config = { ...baseConfig, ...API_FORMAT_ENDPOINTS[apiFormat], apiFormat };
+    }
+    return { config, isBuiltIn, apiFormat };
+}
+
+// 带 HTTP 状态信息的请求错误，用于判断是否可以重试
+export interface ApiRequestError extends Error {
+    status?: number; // HTTP 状态码
+    retryAfter?: number; // 服务端要求的等待时间（毫秒），来自 Retry-After 响应头
+}
+
+/**
+ * 解析 Retry-After 响应头，支持秒数和 HTTP 日期两种格式，返回毫秒
+ */
+function parseRetryAfter(headers: Headers): number | undefined {
+    const retryAfterMs = headers.get('retry-after-ms');
+    if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+        return Number(retryAfterMs);
+    }
+
+    const retryAfter = headers.get('retry-after');
+    if (!retryAfter) return undefined;
+
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+    return undefined;
+}
+
+/**
+ * 根据失败的响应创建错误，附带状态码和 Retry-After 信息
+ */
+function createApiError(response: Response, message: string): ApiRequestError {
+    const error: ApiRequestError = new Error(message);
+    error.status = response.status;
+    error.retryAfter = parseRetryAfter(response.headers);
+    return error;
+}
+
+/**
+ * 解析 OpenAI Chat Completions 格式的 usage
+ */
+function parseOpenAIUsage(usage: any): TokenUsage | undefined {
+    if (!usage) return undefined;
+    return {
+        inputTokens: usage.prompt_tokens || 0,
+        outputTokens: usage.completion_tokens || 0,
+        cachedInputTokens:
+            usage.prompt_tokens_details?.cached_tokens ?? usage.prompt_cache_hit_tokens,
+        reasoningTokens: usage.completion_tokens_details?.reasoning_tokens
+    };
+}
+
+/**
+ * 解析 Responses API 格式的 usage
+ */
+function parseResponsesUsage(usage: any): TokenUsage | undefined {
+    if (!usage) return undefined;
+    return {
+        inputTokens: usage.input_tokens || 0,
+        outputTokens: usage.output_tokens || 0,
+        cachedInputTokens: usage.input_tokens_details?.cached_tokens,
+        reasoningTokens: usage.output_tokens_details?.reasoning_tokens
+    };
+}
+
+/**
+ * 解析 Gemini 的 usageMetadata（candidatesTokenCount 不包含思考部分）
+ */
+function parseGeminiUsage(usageMetadata: any): TokenUsage | undefined {
+    if (!usageMetadata) return undefined;
+    return {
+        inputTokens: usageMetadata.promptTokenCount || 0,
+        outputTokens:
+            (usageMetadata.candidatesTokenCount || 0) + (usageMetadata.thoughtsTokenCount || 0),
+        cachedInputTokens: usageMetadata.cachedContentTokenCount,
+        reasoningTokens: usageMetadata.thoughtsTokenCount
+    };
+}
+
+/**
+ * 解析 Claude 的 usage（input_tokens 不包含缓存读写部分）
+ */
+function parseClaudeUsage(usage: any): TokenUsage | undefined {
+    if (!usage) return undefined;
+    return {
+        inputTokens:
+            (usage.input_tokens || 0) +
+            (usage.cache_read_input_tokens || 0) +
+            (usage.cache_creation_input_tokens || 0),
+        outputTokens: usage.output_tokens || 0,
+        cachedInputTokens: usage.cache_read_input_tokens,
+        cacheWriteInputTokens: usage.cache_creation_input_tokens
+    };
+}
+
+/**
+ * 将各平台的结束原因归一化
+ * 本轮产生了工具调用时统一返回 tool_calls（Gemini 调用函数时 finishReason 仍为 STOP）
+ */
+function normalizeFinishReason(reason?: string, hasToolCalls = false): ChatFinishReason {
+    if (hasToolCalls) return 'tool_calls';
+    switch (reason) {
+        case undefined:
+        case null:
+        case '':
+        case 'stop':
+        case 'stop_sequence':
+        case 'end_turn':
+        case 'completed':
+        case 'STOP':
+            return 'stop';
+        case 'length':
+        case 'max_tokens':
+        case 'max_output_tokens':
+        case 'MAX_TOKENS':
+            return 'length';
+        case 'tool_calls':
+        case 'function_call':
+        case 'tool_use':
+            return 'tool_calls';
+        case 'content_filter':
+        case 'refusal':
+        case 'SAFETY':
+        case 'RECITATION':
+        case 'BLOCKLIST':
+        case 'PROHIBITED_CONTENT':
+        case 'SPII':
+            return 'content_filter';
+        default:
+            return 'other';
+    }
+}
+
+/**
+ * 构建 API Key 认证头
+ * Authorization 头使用 Bearer 方式，其他头（如 Azure 的 api-key）直接传递 API Key
+ */
+function buildApiKeyHeader(apiKeyHeader: string, apiKey: string): Record<string, string> {
+    if (!apiKey) return {};
+    return {
+        [apiKeyHeader]: apiKeyHeader === 'Authorization' ? `Bearer ${apiKey}` : apiKey
+    };
+}
+
+/**
+ * 构建 Azure OpenAI 部署的请求 URL
+ * 格式：{endpoint}/openai/deployments/{deployment}/{operation}?api-version=xxx
+ * @param endpoint Azure 资源地址，例如 https://my-resource.openai.azure.com
+ * @param deployment 部署名称（即模型ID）
+ * @param operation 操作路径，例如 chat/completions、images/generations
+ */
+export function buildAzureUrl(
+    endpoint: string,
+    deployment: string,
+    operation: string,
+    apiVersion?: string
+): string {
+    const root = (endpoint || '').trim().replace(/[#/]+$/, '').replace(/\/openai$/, '');
+    const version = apiVersion || AZURE_DEFAULT_API_VERSION;
+    return `${root}/openai/deployments/${encodeURIComponent(deployment)}/${operation}?api-version=${encodeURIComponent(version)}`;
+}
+
+/**
+ * 构建 Azure OpenAI 对话请求的 URL，按接口格式选择操作
+ * Responses 接口不在部署路径下：{endpoint}/openai/responses?api-version=xxx，部署名称通过请求体的 model 指定
+ */
+export function buildAzureChatUrl(
+    endpoint: string,
+    deployment: string,
+    apiFormat: ApiFormat,
+    apiVersion?: string
+): string {
+    if (apiFormat !== 'openai-responses') {
+        return buildAzureUrl(endpoint, deployment, 'chat/completions', apiVersion);
+    }
+    const root = (endpoint || '').trim().replace(/[#/]+$/, '').replace(/\/openai$/, '');
+    // 部署设置的版本低于 Responses 接口要求的版本时使用默认的 Responses 版本
+    const version =
+        apiVersion && apiVersion >= AZURE_RESPONSES_MIN_API_VERSION ? apiVersion : AZURE_RESPONSES_API_VERSION;
+    return `${root}/openai/responses?api-version=${encodeURIComponent(version)}`;
+}
+
+/**
+ * 构建 Anthropic 原生接口的请求头
+ */
+function buildAnthropicHeaders(apiKey: string): Record<string, string> {
+    return {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        // 允许在渲染进程（浏览器环境）中直接访问
+        'anthropic-dangerous-direct-browser-access': 'true'
+    };
+}
+
 /**
  * 根据自定义API URL和默认端点，获取基础URL和实际端点
  * @param customApiUrl 用户输入的自定义API URL
@@ -353,6 +821,119 @@ function getBaseUrlAndEndpoint(
     return { baseUrl: trimmedUrl.replace(/\/$/, ''), endpoint: defaultEndpoint };
 }
 
+// 常见本地模型服务的默认地址
+export const LOCAL_MODEL_SERVERS: Array<{ id: string; name: string; url: string }> = [
+    { id: 'ollama', name: 'Ollama', url: 'http://localhost:11434' },
+    { id: 'lmstudio', name: 'LM Studio', url: 'http://localhost:1234' },
+    { id: 'llamacpp', name: 'llama.cpp', url: 'http://localhost:8080' }
+];
+
+/**
+ * 获取本地模型服务的根地址（去掉 URL 规则标记和 /v1 后缀）
+ */
+function getLocalServerRoot(apiUrl: string): string {
+    return (apiUrl || '').trim().replace(/[#/]+$/, '').replace(/\/v1$/, '');
+}
+
+/**
+ * 自动发现本地模型服务中的模型
+ * 依次尝试：
+ * 1. Ollama 原生接口 /api/tags（并通过 /api/show 读取上下文长度和能力）
+ * 2. LM Studio 原生接口 /api/v0/models
+ * 3. OpenAI 兼容接口 /v1/models（llama.cpp、vLLM 等）
+ */
+async function discoverLocalModels(
+    apiUrl: string,
+    headers: Record<string, string>,
+    providerName: string,
+    transport: FetchLike
+): Promise<ModelInfo[]> {
+    const root = getLocalServerRoot(apiUrl);
+
+    const tryFetchJson = async (url: string, init?: RequestInit): Promise<any | null> => {
+        try {
+            const response = await transport(url, { headers, ...init });
+            if (!response.ok) return null;
+            return await response.json();
+        } catch (e) {
+            return null;
+        }
+    };
+
+    // 1. Ollama
+    const tags = await tryFetchJson(`${root}/api/tags`);
+    if (tags && Array.isArray(tags.models)) {
+        const models = await Promise.all(tags.models.map(async (model: any) => {
+            const id = model.model || model.name;
+            const details = await tryFetchJson(`${root}/api/show`, {
+                method: 'POST',
+                body: JSON.stringify({ model: id })
+            });
+            return { id, name: model.name || id, details };
+        }));
+
+        return models
+            // 排除只支持向量化的模型
+            .filter(({ details }) => {
+                const caps: string[] = details?.capabilities || [];
+                return !(caps.includes('embedding') && !caps.includes('completion'));
+            })
+            .map(({ id, name, details }) => {
+                const info: ModelInfo = { id, name, provider: providerName };
+                const modelInfo = details?.model_info || {};
+                const arch = modelInfo['general.architecture'];
+                const contextLength = arch ? modelInfo[`${arch}.context_length`] : undefined;
+                if (typeof contextLength === 'number') {
+                    info.contextLength = contextLength;
+                }
+                // 旧版本 Ollama 不返回 capabilities，此时交给模型名称检测
+                if (Array.isArray(details?.capabilities)) {
+                    info.capabilities = {
+                        vision: details.capabilities.includes('vision'),
+                        toolCalling: details.capabilities.includes('tools'),
+                        thinking: details.capabilities.includes('thinking')
+                    };
+                }
+                return info;
+            });
+    }
+
+    // 2. LM Studio
+    const lmStudio = await tryFetchJson(`${root}/api/v0/models`);
+    if (lmStudio && Array.isArray(lmStudio.data)) {
+        return lmStudio.data
+            .filter((model: any) => model.type !== 'embeddings')
+            .map((model: any) => {
+                const info: ModelInfo = { id: model.id, name: model.id, provider: providerName };
+                if (typeof model.max_context_length === 'number') {
+                    info.contextLength = model.max_context_length;
+                }
+                info.capabilities = {
+                    vision: model.type === 'vlm',
+                    toolCalling: Array.isArray(model.capabilities) && model.capabilities.includes('tool_use')
+                };
+                return info;
+            });
+    }
+
+    // 3. OpenAI 兼容接口
+    const openaiModels = await tryFetchJson(`${root}/v1/models`);
+    const modelsArray = Array.isArray(openaiModels?.data) ? openaiModels.data : null;
+    if (modelsArray) {
+        return modelsArray.map((model: any) => {
+            const info: ModelInfo = { id: model.id, name: model.id, provider: providerName };
+            // llama.cpp 在 meta 中返回训练上下文长度，部分服务直接返回 context_length
+            const contextLength = model.context_length ?? model.max_model_len ?? model.meta?.n_ctx_train;
+            if (typeof contextLength === 'number') {
+                info.contextLength = contextLength;
+            }
+            return info;
+        });
+    }
+
+    throw new Error(`Failed to discover local models at ${root}. Please make sure Ollama, LM Studio or llama.cpp server is running.`);
+}
+
 /**
  * 获取模型列表
  */
@@ -360,16 +941,22 @@ export async function fetchModels(
     provider: string,
     apiKey: string,
     customApiUrl?: string,
-    advancedConfig?: { customModelsUrl?: string; customChatUrl?: string }
+    advancedConfig?: AdvancedConfig
 ): Promise<ModelInfo[]> {
-    const isBuiltIn = ['gemini', 'deepseek', 'openai', 'moonshot', 'volcano', 'Achuan'].includes(provider);
-    const config = isBuiltIn ? PROVIDER_CONFIGS[provider as AIProvider] : PROVIDER_CONFIGS.custom;
+    const { config, isBuiltIn, apiFormat } = resolveProviderConfig(provider, advancedConfig);
 
     let url: string;
 
     // 优先使用高级自定义的模型列表 URL
     if (advancedConfig?.customModelsUrl) {
         url = advancedConfig.customModelsUrl;
+    } else if (provider === 'azure') {
+        // Azure 列出资源下的部署（数据面接口仅旧版 API 版本支持）
+        if (!customApiUrl) {
+            throw new Error('Azure OpenAI requires endpoint URL');
+        }
+        const root = customApiUrl.trim().replace(/[#/]+$/, '').replace(/\/openai$/, '');
+        url = `${root}${config.modelsEndpoint}?api-version=2022-12-01`;
     } else if (customApiUrl) {
         const { baseUrl, endpoint } = getBaseUrlAndEndpoint(customApiUrl, config.modelsEndpoint);
         url = `${baseUrl}${endpoint}`;
@@ -380,19 +967,36 @@ export async function fetchModels(
         url = `${config.baseUrl}${config.modelsEndpoint}`;
     }
 
+    // Anthropic 模型列表默认分页 20 条，一次取足
+    if (apiFormat === 'anthropic' && !/[?&]limit=/.test(url)) {
+        url += `${url.includes('?') ? '&' : '?'}limit=1000`;
+    }
+
     try {
-        const headers: Record<string, string> = {
+        let headers: Record<string, string> = {
             'Content-Type': 'application/json'
         };
 
-        // 处理不同平台的认证方式
-        if (provider === 'gemini') {
+        // 处理不同接口格式的认证方式
+        if (apiFormat === 'gemini') {
             headers[config.apiKeyHeader] = apiKey;
+        } else if (apiFormat === 'anthropic') {
+            headers = buildAnthropicHeaders(apiKey);
         } else {
-            headers[config.apiKeyHeader] = `Bearer ${apiKey}`;
+            Object.assign(headers, buildApiKeyHeader(config.apiKeyHeader, apiKey));
+        }
+
+        // 本地模型服务：自动发现模型及其元数据
+        if (provider === 'local' && !advancedConfig?.customModelsUrl) {
+            return await discoverLocalModels(
+                customApiUrl || config.baseUrl,
+                headers,
+                config.name,
+                getProviderFetch(advancedConfig)
+            );
         }
 
-        const response = await fetch(url, {
+        const response = await getProviderFetch(advancedConfig)(url, {
             method: 'GET',
             headers
         });
@@ -421,13 +1025,27 @@ export async function fetchModels(
 
         const data = await response.json();
 
-        // 处理不同平台的响应格式
-        if (provider === 'gemini') {
-            return (data.models || []).map((model: any) => ({
+        // 处理不同接口格式的响应
+        if (apiFormat === 'gemini' && Array.isArray(data.models)) {
+            return data.models.map((model: any) => ({
                 id: model.name.replace('models/', ''),
                 name: model.displayName || model.name,
                 provider: config.name
             }));
+        } else if (apiFormat === 'anthropic' && Array.isArray(data.data)) {
+            // Anthropic 格式: { data: [{ id, display_name, type: 'model' }], has_more, last_id }
+            return data.data.map((model: any) => ({
+                id: model.id,
+                name: model.display_name || model.id,
+                provider: config.name
+            }));
+        } else if (provider === 'azure' && Array.isArray(data.data)) {
+            // Azure 部署格式: { data: [{ id: 部署名称, model: 基础模型 }] }
+            return data.data.map((deployment: any) => ({
+                id: deployment.id,
+                name: deployment.model ? `${deployment.id} (${deployment.model})` : deployment.id,
+                provider: config.name
+            }));
         } else {
             // 尝试多种可能的响应格式以支持自定义API
             let modelsArray: any[] = [];
@@ -468,11 +1086,13 @@ export async function fetchModels(
 /**
  * 发送聊天请求 (OpenAI 格式)
  */
-async function chatOpenAIFormat(
+async function* chatOpenAIFormat(
     url: string,
     apiKey: string,
-    options: ChatOptions
-): Promise<void> {
+    options: ChatOptions,
+    apiKeyHeader: string = 'Authorization',
+    nativeDocuments: boolean = false
+): AsyncGenerator<ChatStreamEvent> {
 
 
     // 转换消息格式以支持多模态和工具调用
@@ -495,6 +1115,16 @@ async function chatOpenAIFormat(
                         }
                     };
                 }
+                // 文档：OpenAI 官方接口支持 file 内容，其他兼容平台发送提取的文本
+                if (part.type === 'file' && part.file) {
+                    if (nativeDocuments && isNativeDocument(part.file)) {
+                        return {
+                            type: 'file',
+                            file: { filename: part.file.filename, file_data: part.file.file_data }
+                        };
+                    }
+                    return { type: 'text', text: formatDocumentText(part.file) };
+                }
                 return part;
             }));
             formatted.content = newContent;
@@ -505,9 +1135,13 @@ async function chatOpenAIFormat(
             formatted.reasoning_content = (msg as any).reasoning_content;
         }
 
-        // 添加工具调用信息
+        // 添加工具调用信息（去掉 Gemini 专用的思考签名）
         if (msg.tool_calls) {
-            formatted.tool_calls = msg.tool_calls;
+            formatted.tool_calls = msg.tool_calls.map(({ id, type, function: fn }) => ({
+                id,
+                type,
+                function: fn
+            }));
         }
 
         // 添加工具返回信息
@@ -534,6 +1168,19 @@ async function chatOpenAIFormat(
         requestBody.tool_choice = 'auto'; // 让模型自动决定是否调用工具
     }
 
+    // 结构化输出
+    if (options.responseSchema) {
+        requestBody.response_format = {
+            type: 'json_schema',
+            json_schema: {
+                name: options.responseSchema.name,
+                description: options.responseSchema.description,
+                schema: options.responseSchema.schema,
+                strict: true
+            }
+        };
+    }
+
     // 处理思考模式：界面控制优先
     // 如果界面未启用思考模式，删除自定义参数中可能存在的思考模式设置
     if (!options.enableThinking) {
@@ -601,145 +1248,816 @@ async function chatOpenAIFormat(
                 };
             }
         }
-        // 通用的 stream_options（适用于 DeepSeek 等）
+    }
+
+    // 流式响应在最后一个数据块中返回 usage
+    if (requestBody.stream) {
         requestBody.stream_options = {
-            include_usage: true
+            include_usage: true,
+            ...requestBody.stream_options
         };
     }
 
+    // 本地模型服务可以不设置 API Key
     const headers: Record<string, string> = {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
+        ...buildApiKeyHeader(apiKeyHeader, apiKey)
     };
 
-    try {
-        const response = await fetch(url, {
-            method: 'POST',
-            headers,
-            body: JSON.stringify(requestBody),
-            signal: options.signal // 传递 AbortSignal
-        });
-
-        if (!response.ok) {
-            // 尝试读取错误响应体中的详细错误信息
-            let errorMessage = `API request failed: ${response.status} ${response.statusText}`;
+    options.onRequest?.({ url, headers, body: requestBody });
+    const response = await (options.transport || fetch)(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(requestBody),
+        signal: options.signal // 传递 AbortSignal
+    });
+
+    if (!response.ok) {
+        // 尝试读取错误响应体中的详细错误信息
+        let errorMessage = `API request failed: ${response.status} ${response.statusText}`;
+        try {
+            const errorData = await response.json();
+            // 尝试提取常见的错误消息字段
+            const detailMsg = errorData.error?.message || errorData.message || errorData.error || JSON.stringify(errorData);
+            errorMessage += `\n\n${detailMsg}`;
+        } catch (e) {
+            // 如果无法解析 JSON，尝试读取文本
             try {
-                const errorData = await response.json();
-                // 尝试提取常见的错误消息字段
-                const detailMsg = errorData.error?.message || errorData.message || errorData.error || JSON.stringify(errorData);
-                errorMessage += `\n\n${detailMsg}`;
-            } catch (e) {
-                // 如果无法解析 JSON，尝试读取文本
-                try {
-                    const errorText = await response.text();
-                    if (errorText) {
-                        errorMessage += `\n\n${errorText}`;
-                    }
-                } catch (textError) {
-                    // 忽略文本读取错误
+                const errorText = await response.text();
+                if (errorText) {
+                    errorMessage += `\n\n${errorText}`;
                 }
+            } catch (textError) {
+                // 忽略文本读取错误
             }
-            throw new Error(errorMessage);
         }
+        throw createApiError(response, errorMessage);
+    }
 
-        if (options.stream !== false && response.body) {
-            await handleStreamResponse(response.body, options);
-        } else {
-            const data = await response.json();
-            const content = data.choices?.[0]?.message?.content || '';
-            options.onChunk?.(content);
-            options.onComplete?.(content);
+    if (options.stream !== false && response.body) {
+        yield* parseOpenAIStream(response.body, options);
+    } else {
+        const data = await response.json();
+        options.onRawEvent?.(JSON.stringify(data));
+        const choice = data.choices?.[0];
+        const message = choice?.message;
+        const content = message?.content || '';
+        const usage = parseOpenAIUsage(data.usage);
+        // 与流式响应相同的思考内容字段
+        const reasoningContent = message?.reasoning_content
+            || message?.reasoning
+            || message?.thought
+            || message?.thinking;
+        if (options.enableThinking && typeof reasoningContent === 'string' && reasoningContent) {
+            yield { type: 'thinking', text: reasoningContent };
+        }
+        if (content) {
+            yield { type: 'text', text: content };
+        }
+        const toolCalls: ToolCall[] = (message?.tool_calls || [])
+            .filter((tc: any) => tc.id && tc.function?.name)
+            .map((tc: any) => ({
+                id: tc.id,
+                type: 'function' as const,
+                function: {
+                    name: tc.function.name,
+                    arguments: tc.function.arguments || '{}'
+                }
+            }));
+        if (toolCalls.length > 0) {
+            yield { type: 'tool_call_done', toolCalls };
+        }
+        if (usage) {
+            yield { type: 'usage', usage };
+        }
+        yield {
+            type: 'finish',
+            reason: normalizeFinishReason(choice?.finish_reason, toolCalls.length > 0),
+            text: content
+        };
+    }
+}
+
+/**
+ * 转换为 Responses API 的 input 列表
+ * - user/assistant 消息转换为 message 项
+ * - assistant 的工具调用转换为 function_call 项
+ * - tool 消息转换为 function_call_output 项
+ */
+async function buildResponsesInput(messages: Message[], nativeDocuments: boolean): Promise<any[]> {
+    const input: any[] = [];
+
+    for (const msg of messages) {
+        if (msg.role === 'system') continue;
+
+        if (msg.role === 'tool') {
+            input.push({
+                type: 'function_call_output',
+                call_id: msg.tool_call_id,
+                output: getMessageText(msg.content)
+            });
+            continue;
+        }
+
+        if (msg.role === 'assistant') {
+            const text = getMessageText(msg.content);
+            if (text) {
+                input.push({ role: 'assistant', content: text });
+            }
+            for (const toolCall of msg.tool_calls || []) {
+                input.push({
+                    type: 'function_call',
+                    call_id: toolCall.id,
+                    name: toolCall.function.name,
+                    arguments: toolCall.function.arguments || '{}'
+                });
+            }
+            continue;
+        }
+
+        // user 消息
+        if (typeof msg.content === 'string') {
+            input.push({ role: 'user', content: msg.content });
+            continue;
+        }
+
+        const content: any[] = [];
+        for (const part of msg.content) {
+            if (part.type === 'text' && part.text) {
+                content.push({ type: 'input_text', text: part.text });
+            } else if (part.type === 'image_url' && part.image_url) {
+                let imageUrl = part.image_url.url;
+                if (imageUrl.startsWith('blob:')) {
+                    imageUrl = `data:image/jpeg;base64,${await imageUrlToBase64(imageUrl)}`;
+                }
+                content.push({ type: 'input_image', image_url: imageUrl });
+            } else if (part.type === 'file' && part.file) {
+                if (nativeDocuments && isNativeDocument(part.file)) {
+                    content.push({
+                        type: 'input_file',
+                        filename: part.file.filename,
+                        file_data: part.file.file_data
+                    });
+                } else {
+                    content.push({ type: 'input_text', text: formatDocumentText(part.file) });
+                }
+            }
+        }
+        input.push({ role: 'user', content });
+    }
+
+    return input;
+}
+
+/**
+ * 将 OpenAI Chat Completions 格式的工具列表转换为 Responses API 格式
+ * { type: 'function', function: { name, ... } } -> { type: 'function', name, ... }
+ */
+function convertToolsToResponses(tools: any[]): any[] {
+    const result: any[] = [];
+    for (const tool of tools) {
+        if (!tool || typeof tool !== 'object') continue;
+
+        const fn = tool.type === 'function' ? tool.function : null;
+        if (!fn) {
+            // 内置工具（如 web_search）原样保留
+            result.push(tool);
+            continue;
+        }
+
+        // googleSearch 仅适用于 Gemini
+        if (!fn.name || fn.name === 'googleSearch') continue;
+
+        result.push({
+            type: 'function',
+            name: fn.name,
+            description: fn.description || '',
+            parameters: fn.parameters || { type: 'object', properties: {} }
+        });
+    }
+    return result;
+}
+
+/**
+ * 发送聊天请求 (OpenAI Responses API 格式)
+ * 推理模型的思考摘要和内置工具只能通过该接口获取
+ */
+async function* chatOpenAIResponsesFormat(
+    url: string,
+    apiKey: string,
+    options: ChatOptions,
+    apiKeyHeader: string = 'Authorization',
+    nativeDocuments: boolean = false
+): AsyncGenerator<ChatStreamEvent> {
+    const instructions = options.messages
+        .filter(msg => msg.role === 'system')
+        .map(msg => getMessageText(msg.content))
+        .join('\n');
+
+    const requestBody: any = {
+        model: options.model,
+        input: await buildResponsesInput(options.messages, nativeDocuments),
+        max_output_tokens: options.maxTokens,
+        stream: options.stream !== false,
+        // 不在服务端保存对话，每次请求携带完整上下文
+        store: false,
+        ...options.customBody // 合并自定义参数
+    };
+
+    if (instructions) {
+        requestBody.instructions = instructions;
+    }
+
+    // 添加工具定义（Agent模式）
+    if (options.tools && options.tools.length > 0) {
+        const responsesTools = convertToolsToResponses(options.tools);
+        if (responsesTools.length > 0) {
+            requestBody.tools = responsesTools;
+            requestBody.tool_choice = 'auto';
+        }
+    }
+
+    // 结构化输出
+    if (options.responseSchema) {
+        requestBody.text = {
+            ...requestBody.text,
+            format: {
+                type: 'json_schema',
+                name: options.responseSchema.name,
+                description: options.responseSchema.description,
+                schema: options.responseSchema.schema,
+                strict: true
+            }
+        };
+    }
+
+    // 处理思考模式：界面控制优先
+    if (!options.enableThinking) {
+        delete requestBody.reasoning;
+        requestBody.temperature = options.temperature || 1;
+    } else {
+        // 推理模型不支持 temperature，使用 reasoning 参数并请求思考摘要
+        const reasoningEffort = options.reasoningEffort || 'low';
+        requestBody.reasoning = {
+            effort: reasoningEffort === 'auto' ? 'medium' : reasoningEffort,
+            summary: 'auto'
+        };
+    }
+
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        ...buildApiKeyHeader(apiKeyHeader, apiKey)
+    };
+
+    options.onRequest?.({ url, headers, body: requestBody });
+    const response = await (options.transport || fetch)(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(requestBody),
+        signal: options.signal
+    });
+
+    if (!response.ok) {
+        let errorMessage = `API request failed: ${response.status} ${response.statusText}`;
+        try {
+            const errorData = await response.json();
+            const detailMsg = errorData.error?.message || errorData.message || errorData.error || JSON.stringify(errorData);
+            errorMessage += `\n\n${detailMsg}`;
+        } catch (e) {
+            try {
+                const errorText = await response.text();
+                if (errorText) {
+                    errorMessage += `\n\n${errorText}`;
+                }
+            } catch (textError) {
+                // 忽略文本读取错误
+            }
+        }
+        throw createApiError(response, errorMessage);
+    }
+
+    if (options.stream !== false && response.body) {
+        yield* parseResponsesStream(response.body, options);
+    } else {
+        const data = await response.json();
+        options.onRawEvent?.(JSON.stringify(data));
+        let content = '';
+        let thinking = '';
+        const toolCalls: ToolCall[] = [];
+        for (const item of data.output || []) {
+            if (item.type === 'message') {
+                content += (item.content || [])
+                    .filter((part: any) => part.type === 'output_text')
+                    .map((part: any) => part.text)
+                    .join('');
+            } else if (item.type === 'reasoning') {
+                thinking += (item.summary || []).map((part: any) => part.text).join('\n\n');
+            } else if (item.type === 'function_call') {
+                toolCalls.push({
+                    id: item.call_id,
+                    type: 'function',
+                    function: { name: item.name, arguments: item.arguments || '{}' }
+                });
+            }
+        }
+        if (thinking && options.enableThinking) {
+            yield { type: 'thinking', text: thinking };
+        }
+        if (content) {
+            yield { type: 'text', text: content };
+        }
+        if (toolCalls.length > 0) {
+            yield { type: 'tool_call_done', toolCalls };
+        }
+        const usage = parseResponsesUsage(data.usage);
+        if (usage) {
+            yield { type: 'usage', usage };
+        }
+        yield {
+            type: 'finish',
+            reason: toolCalls.length > 0
+                ? 'tool_calls'
+                : normalizeFinishReason(data.incomplete_details?.reason || data.status),
+            text: content
+        };
+    }
+}
+
+/**
+ * 解析 Responses API 的流式响应
+ * 主要事件：
+ * - response.output_text.delta：正文
+ * - response.reasoning_summary_text.delta：思考摘要
+ * - response.output_item.added / response.function_call_arguments.delta：工具调用
+ * - response.completed / response.incomplete：请求结束
+ * - response.failed / error：请求失败
+ */
+async function* parseResponsesStream(
+    body: ReadableStream<Uint8Array>,
+    options: ChatOptions
+): AsyncGenerator<ChatStreamEvent> {
+    let fullText = '';
+    let hasThinking = false;
+    // 按 output_index 记录的工具调用
+    const toolCallBuffer: Record<number, { id: string; name: string; arguments: string }> = {};
+    let usage: TokenUsage | undefined;
+    let finishReason: string | undefined;
+
+    try {
+        for await (const payload of readSSEData(body)) {
+            options.onRawEvent?.(payload);
+
+            let json: any;
+            try {
+                json = JSON.parse(payload);
+            } catch (e) {
+                console.error('Failed to parse Responses SSE data:', e);
+                continue;
+            }
+
+            switch (json.type) {
+                case 'response.output_text.delta':
+                    if (json.delta) {
+                        fullText += json.delta;
+                        yield { type: 'text', text: json.delta };
+                    }
+                    break;
+                case 'response.reasoning_summary_part.added':
+                    // 多段思考摘要之间空一行
+                    if (hasThinking && options.enableThinking) {
+                        yield { type: 'thinking', text: '\n\n' };
+                    }
+                    break;
+                case 'response.reasoning_summary_text.delta':
+                    if (json.delta && options.enableThinking) {
+                        hasThinking = true;
+                        yield { type: 'thinking', text: json.delta };
+                    }
+                    break;
+                case 'response.output_item.added':
+                    if (json.item?.type === 'function_call') {
+                        toolCallBuffer[json.output_index] = {
+                            id: json.item.call_id,
+                            name: json.item.name,
+                            arguments: json.item.arguments || ''
+                        };
+                        yield {
+                            type: 'tool_call_delta',
+                            index: json.output_index,
+                            id: json.item.call_id,
+                            name: json.item.name,
+                            arguments: json.item.arguments || ''
+                        };
+                    }
+                    break;
+                case 'response.function_call_arguments.delta':
+                    if (toolCallBuffer[json.output_index]) {
+                        toolCallBuffer[json.output_index].arguments += json.delta || '';
+                        yield {
+                            type: 'tool_call_delta',
+                            index: json.output_index,
+                            arguments: json.delta || ''
+                        };
+                    }
+                    break;
+                case 'response.function_call_arguments.done':
+                    if (toolCallBuffer[json.output_index] && typeof json.arguments === 'string') {
+                        toolCallBuffer[json.output_index].arguments = json.arguments;
+                    }
+                    break;
+                case 'response.completed':
+                case 'response.incomplete':
+                    usage = parseResponsesUsage(json.response?.usage);
+                    finishReason = json.response?.incomplete_details?.reason || json.response?.status;
+                    break;
+                case 'response.failed':
+                case 'error': {
+                    const errorInfo = json.response?.error || json.error || json;
+                    throw new Error(`API request failed: ${errorInfo.message || errorInfo.code || JSON.stringify(errorInfo)}`);
+                }
+            }
         }
     } catch (error) {
-        // 检查是否是用户主动中断
         if ((error as Error).name === 'AbortError') {
-            console.log('Request was aborted by user');
-            options.onError?.(new Error('Request aborted'));
-        } else {
-            console.error('Chat error:', error);
-            options.onError?.(error as Error);
+            yield { type: 'finish', reason: 'aborted', text: fullText };
         }
         throw error;
     }
+
+    // 处理完整的工具调用
+    const toolCalls: ToolCall[] = Object.keys(toolCallBuffer)
+        .map(Number)
+        .sort((a, b) => a - b)
+        .map(index => ({
+            id: toolCallBuffer[index].id,
+            type: 'function' as const,
+            function: {
+                name: toolCallBuffer[index].name,
+                arguments: toolCallBuffer[index].arguments || '{}'
+            }
+        }));
+    if (toolCalls.length > 0) {
+        yield { type: 'tool_call_done', toolCalls };
+    }
+
+    if (usage) {
+        yield { type: 'usage', usage };
+    }
+
+    yield {
+        type: 'finish',
+        reason: normalizeFinishReason(finishReason, toolCalls.length > 0),
+        text: fullText
+    };
+}
+
+/**
+ * 提取多模态消息中的文本内容
+ */
+function getMessageText(content: string | MessageContent[]): string {
+    if (typeof content === 'string') return content;
+    return content
+        .filter(part => part.type === 'text' && part.text)
+        .map(part => part.text)
+        .join('\n');
+}
+
+/**
+ * 文档是否可以原生发送（目前各平台只支持 PDF）
+ */
+function isNativeDocument(file: MessageFile): boolean {
+    return file.mime_type === 'application/pdf' && !!file.file_data?.startsWith('data:');
+}
+
+/**
+ * 不支持原生文档的模型使用本地提取的文本
+ */
+export function formatDocumentText(file: MessageFile): string {
+    const pages = file.page_count ? `（共 ${file.page_count} 页）` : '';
+    return `## 文件: ${file.filename}${pages}\n\n\`\`\`\n${file.text || ''}\n\`\`\`\n`;
+}
+
+/**
+ * 提取 data URL 中的 base64 数据
+ */
+function getDataUrlBase64(dataUrl: string): string {
+    return dataUrl.replace(/^data:[^;]+;base64,/, '');
+}
+
+// Gemini 函数声明不支持的 JSON Schema 字段
+const GEMINI_UNSUPPORTED_SCHEMA_KEYS = ['$schema', '$id', '$ref', '$defs', 'additionalProperties', 'default', 'examples', 'const'];
+
+/**
+ * 将 JSON Schema 转换为 Gemini 函数声明支持的 OpenAPI Schema 子集
+ */
+function convertSchemaToGemini(schema: any): any {
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+        return schema;
+    }
+
+    const result: any = {};
+    for (const [key, value] of Object.entries(schema)) {
+        if (GEMINI_UNSUPPORTED_SCHEMA_KEYS.includes(key)) continue;
+
+        if (key === 'properties' && value && typeof value === 'object') {
+            result.properties = {};
+            for (const [propName, propSchema] of Object.entries(value)) {
+                result.properties[propName] = convertSchemaToGemini(propSchema);
+            }
+        } else if (key === 'items') {
+            result.items = convertSchemaToGemini(value);
+        } else if ((key === 'anyOf' || key === 'oneOf') && Array.isArray(value)) {
+            result.anyOf = value.map(convertSchemaToGemini);
+        } else {
+            result[key] = value;
+        }
+    }
+
+    // Gemini 要求数组类型必须声明 items
+    if (result.type === 'array' && !result.items) {
+        result.items = { type: 'string' };
+    }
+
+    return result;
+}
+
+/**
+ * 将 OpenAI 格式的工具列表转换为 Gemini tools
+ * - 普通函数工具转换为 functionDeclarations
+ * - googleSearch 转换为 Gemini 内置的联网搜索工具
+ */
+function convertToolsToGemini(tools: any[]): any[] {
+    const functionDeclarations: any[] = [];
+    const builtInTools: any[] = [];
+
+    for (const tool of tools) {
+        const fn = tool?.type === 'function' ? tool.function : null;
+        if (!fn?.name) {
+            // 非 OpenAI 函数格式的工具（如已是 Gemini 格式）原样保留
+            if (tool && typeof tool === 'object') builtInTools.push(tool);
+            continue;
+        }
+
+        if (fn.name === 'googleSearch') {
+            builtInTools.push({ googleSearch: {} });
+            continue;
+        }
+
+        const declaration: any = {
+            name: fn.name,
+            description: fn.description || ''
+        };
+        // 无参数的函数不能传空的 object schema
+        if (fn.parameters && Object.keys(fn.parameters.properties || {}).length > 0) {
+            declaration.parameters = convertSchemaToGemini(fn.parameters);
+        }
+        functionDeclarations.push(declaration);
+    }
+
+    const result = [...builtInTools];
+    if (functionDeclarations.length > 0) {
+        result.push({ functionDeclarations });
+    }
+    return result;
+}
+
+/**
+ * 将 ToolCall 转换为 Gemini functionCall part
+ */
+function toGeminiFunctionCallPart(toolCall: ToolCall): any {
+    let args: any = {};
+    try {
+        args = toolCall.function.arguments ? JSON.parse(toolCall.function.arguments) : {};
+    } catch (e) {
+        console.warn('Failed to parse tool call arguments for Gemini:', toolCall.function.arguments);
+    }
+
+    const part: any = {
+        functionCall: {
+            name: toolCall.function.name,
+            args
+        }
+    };
+    // 思考模式下需要回传思考签名
+    if (toolCall.thoughtSignature) {
+        part.thoughtSignature = toolCall.thoughtSignature;
+    }
+    return part;
+}
+
+/**
+ * 构建 Gemini 消息的 parts（文本、图片及生成的图片）
+ */
+async function buildGeminiParts(msg: Message, nativeDocuments: boolean): Promise<any[]> {
+    const parts: any[] = [];
+
+    // 处理多模态内容
+    if (typeof msg.content === 'string') {
+        parts.push({ text: msg.content });
+    } else {
+        // 转换为 Gemini 格式
+        for (const part of msg.content) {
+            if (part.type === 'text' && part.text) {
+                parts.push({ text: part.text });
+            } else if (part.type === 'image_url' && part.image_url) {
+                // Gemini 使用 inline_data 格式
+                let base64Data = '';
+                if (part.image_url.url.startsWith('data:')) {
+                    base64Data = part.image_url.url.replace(/^data:image\/\w+;base64,/, '');
+                } else {
+                    // 尝试转换为 base64 (支持 blob URL)
+                    base64Data = await imageUrlToBase64(part.image_url.url);
+                }
+                const mimeType =
+                    part.image_url.url.match(/^data:(image\/\w+);base64,/)?.[1] ||
+                    'image/jpeg';
+                parts.push({
+                    inline_data: {
+                        mime_type: mimeType,
+                        data: base64Data,
+                    },
+                });
+            } else if (part.type === 'file' && part.file) {
+                // Gemini 原生支持 PDF，其他文档使用提取的文本
+                if (nativeDocuments && isNativeDocument(part.file)) {
+                    parts.push({
+                        inline_data: {
+                            mime_type: 'application/pdf',
+                            data: getDataUrlBase64(part.file.file_data)
+                        }
+                    });
+                } else {
+                    parts.push({ text: formatDocumentText(part.file) });
+                }
+            }
+        }
+    }
+
+    // 如果是assistant消息且有生成的图片，添加inline_data
+    if (msg.role === 'assistant' && msg.generatedImages && msg.generatedImages.length > 0) {
+        msg.generatedImages.forEach(img => {
+            parts.push({
+                inline_data: {
+                    mime_type: img.mimeType,
+                    data: img.data
+                }
+            });
+        });
+    }
+
+    return parts;
+}
+
+// Gemini 显式缓存的有效期（秒）
+const GEMINI_CACHE_TTL_SECONDS = 3600;
+// 剩余有效期不足该值（毫秒）时重新创建缓存
+const GEMINI_CACHE_REFRESH_MARGIN = 5 * 60 * 1000;
+
+interface GeminiCacheEntry {
+    name: string; // cachedContents/xxx
+    fingerprint: string; // 缓存前缀内容的摘要
+    expireTime: number;
+}
+
+// 按缓存键（会话）+ 模型记录已创建的显式缓存，同一会话的后续轮次直接复用
+const geminiCacheEntries = new Map<string, GeminiCacheEntry>();
+// 创建失败的前缀（如未达到最小 token 数），避免每轮重复尝试
+const geminiCacheFailures = new Set<string>();
+
+/**
+ * 计算字符串摘要（FNV-1a），用于判断缓存前缀是否变化
+ */
+function fingerprintText(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `${(hash >>> 0).toString(16)}:${text.length}`;
+}
+
+/**
+ * 获取或创建 Gemini 显式缓存（cachedContents），失败时返回 null，由调用方退回普通请求
+ * 缓存包含断点之前的对话、系统提示词和工具定义，前缀变化时删除旧缓存并重新创建
+ */
+async function getGeminiCachedContent(
+    baseUrl: string,
+    apiKey: string,
+    model: string,
+    cacheKey: string,
+    prefix: any,
+    transport: FetchLike,
+    signal?: AbortSignal
+): Promise<string | null> {
+    const entryKey = `${cacheKey}:${model}`;
+    const fingerprint = fingerprintText(`${model}\n${JSON.stringify(prefix)}`);
+    if (geminiCacheFailures.has(fingerprint)) return null;
+
+    const existing = geminiCacheEntries.get(entryKey);
+    if (
+        existing &&
+        existing.fingerprint === fingerprint &&
+        existing.expireTime - Date.now() > GEMINI_CACHE_REFRESH_MARGIN
+    ) {
+        return existing.name;
+    }
+
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': apiKey
+    };
+
+    // 前缀已变化的旧缓存不再使用，尽力删除
+    if (existing) {
+        geminiCacheEntries.delete(entryKey);
+        transport(`${baseUrl}/v1beta/${existing.name}`, { method: 'DELETE', headers }).catch(() => {
+            // 忽略删除失败，缓存到期后会自动清除
+        });
+    }
+
+    try {
+        const response = await transport(`${baseUrl}/v1beta/cachedContents`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                model: `models/${model}`,
+                ...prefix,
+                ttl: `${GEMINI_CACHE_TTL_SECONDS}s`
+            }),
+            signal
+        });
+        if (!response.ok) {
+            console.warn('Create Gemini cached content failed:', await readErrorDetail(response));
+            geminiCacheFailures.add(fingerprint);
+            return null;
+        }
+        const data = await response.json();
+        if (!data.name) return null;
+        const expireTime = data.expireTime
+            ? new Date(data.expireTime).getTime()
+            : Date.now() + GEMINI_CACHE_TTL_SECONDS * 1000;
+        geminiCacheEntries.set(entryKey, { name: data.name, fingerprint, expireTime });
+        return data.name;
+    } catch (error) {
+        if ((error as Error).name === 'AbortError') throw error;
+        console.warn('Create Gemini cached content error:', error);
+        return null;
+    }
 }
 
 /**
  * 发送聊天请求 (Gemini 格式)
  */
-async function chatGeminiFormat(
+async function* chatGeminiFormat(
     baseUrl: string,
     apiKey: string,
     model: string,
-    options: ChatOptions
-): Promise<void> {
+    options: ChatOptions,
+    nativeDocuments: boolean = false
+): AsyncGenerator<ChatStreamEvent> {
     const url = `${baseUrl}/v1beta/models/${model}:streamGenerateContent?key=${apiKey}&alt=sse`;
 
     // 转换消息格式
-    const contents = await Promise.all(options.messages
-        .filter(msg => msg.role !== 'system')
-        .map(async msg => {
-            const role = msg.role === 'assistant' ? 'model' : 'user';
-
-            // 处理多模态内容
-            if (typeof msg.content === 'string') {
-                const parts: any[] = [{ text: msg.content }];
-
-                // 如果是assistant消息且有生成的图片，添加inline_data
-                if (msg.role === 'assistant' && msg.generatedImages && msg.generatedImages.length > 0) {
-                    msg.generatedImages.forEach(img => {
-                        parts.push({
-                            inline_data: {
-                                mime_type: img.mimeType,
-                                data: img.data
-                            }
-                        });
-                    });
-                }
+    const contents: any[] = [];
+    // 最后一个缓存断点之前的 contents 数量
+    let breakpointCount = 0;
+    for (const msg of options.messages) {
+        if (msg.role === 'system') continue;
 
-                return { role, parts };
-            } else {
-                // 转换为 Gemini 格式
-                const parts: any[] = [];
-
-                for (const part of msg.content) {
-                    if (part.type === 'text' && part.text) {
-                        parts.push({ text: part.text });
-                    } else if (part.type === 'image_url' && part.image_url) {
-                        // Gemini 使用 inline_data 格式
-                        let base64Data = '';
-                        if (part.image_url.url.startsWith('data:')) {
-                            base64Data = part.image_url.url.replace(/^data:image\/\w+;base64,/, '');
-                        } else {
-                            // 尝试转换为 base64 (支持 blob URL)
-                            base64Data = await imageUrlToBase64(part.image_url.url);
-                        }
-                        const mimeType =
-                            part.image_url.url.match(/^data:(image\/\w+);base64,/)?.[1] ||
-                            'image/jpeg';
-                        parts.push({
-                            inline_data: {
-                                mime_type: mimeType,
-                                data: base64Data,
-                            },
-                        });
-                    }
+        // 工具结果转换为 functionResponse，连续的工具结果合并到同一轮 user 消息中
+        if (msg.role === 'tool') {
+            const responsePart = {
+                functionResponse: {
+                    name: msg.name,
+                    response: { result: typeof msg.content === 'string' ? msg.content : getMessageText(msg.content) }
                 }
+            };
+            const last = contents[contents.length - 1];
+            if (last && last.role === 'user' && last.parts.every((p: any) => p.functionResponse)) {
+                last.parts.push(responsePart);
+            } else {
+                contents.push({ role: 'user', parts: [responsePart] });
+            }
+            continue;
+        }
 
-                // 如果是assistant消息且有生成的图片，添加inline_data
-                if (msg.role === 'assistant' && msg.generatedImages && msg.generatedImages.length > 0) {
-                    msg.generatedImages.forEach(img => {
-                        parts.push({
-                            inline_data: {
-                                mime_type: img.mimeType,
-                                data: img.data
-                            }
-                        });
-                    });
-                }
+        const role = msg.role === 'assistant' ? 'model' : 'user';
+        const parts = await buildGeminiParts(msg, nativeDocuments);
 
-                return { role, parts };
-            }
-        }));
+        // assistant 的工具调用转换为 functionCall
+        if (msg.role === 'assistant' && msg.tool_calls && msg.tool_calls.length > 0) {
+            // 仅有工具调用时去掉空文本
+            const nonEmptyParts = parts.filter(p => !('text' in p) || p.text);
+            nonEmptyParts.push(...msg.tool_calls.map(toGeminiFunctionCallPart));
+            contents.push({ role, parts: nonEmptyParts });
+            continue;
+        }
+
+        contents.push({ role, parts });
+        if (msg.cacheBreakpoint) {
+            breakpointCount = contents.length;
+        }
+    }
 
     const systemInstruction = options.messages.find(msg => msg.role === 'system');
 
@@ -749,11 +2067,13 @@ async function chatGeminiFormat(
 
     const requestBody: any = {
         contents,
+        ...options.customBody, // 合并自定义参数
+        // 自定义参数中的 generationConfig 与默认的温度、最大输出合并，而不是整体替换
         generationConfig: {
             temperature: options.temperature || 1,
-            maxOutputTokens: options.maxTokens
-        },
-        ...options.customBody // 合并自定义参数
+            maxOutputTokens: options.maxTokens,
+            ...options.customBody?.generationConfig
+        }
     };
 
     // 如果启用了图片生成，确保responseModalities包含IMAGE
@@ -787,51 +2107,89 @@ async function chatGeminiFormat(
         };
     }
 
-    try {
-        const response = await fetch(url, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json'
-            },
-            body: JSON.stringify(requestBody),
-            signal: options.signal // 传递 AbortSignal
-        });
+    // 结构化输出（Gemini 不支持同时使用 JSON 输出和工具，此时忽略工具）
+    if (options.responseSchema) {
+        requestBody.generationConfig = {
+            ...requestBody.generationConfig,
+            responseMimeType: 'application/json',
+            responseSchema: convertSchemaToGemini(options.responseSchema.schema)
+        };
+    }
 
-        if (!response.ok) {
-            // 尝试读取错误响应体中的详细错误信息
-            let errorMessage = `API request failed: ${response.status} ${response.statusText}`;
-            try {
-                const errorData = await response.json();
-                // 尝试提取常见的错误消息字段
-                const detailMsg = errorData.error?.message || errorData.message || errorData.error || JSON.stringify(errorData);
-                errorMessage += `\n\n${detailMsg}`;
-            } catch (e) {
-                // 如果无法解析 JSON，尝试读取文本
-                try {
-                    const errorText = await response.text();
-                    if (errorText) {
-                        errorMessage += `\n\n${errorText}`;
-                    }
-                } catch (textError) {
-                    // 忽略文本读取错误
-                }
+    // 添加工具定义（Agent 模式的函数声明 + 联网搜索）
+    if (options.tools && options.tools.length > 0 && !options.responseSchema) {
+        const geminiTools = convertToolsToGemini(options.tools);
+        if (geminiTools.length > 0) {
+            requestBody.tools = geminiTools;
+            if (geminiTools.some(tool => tool.functionDeclarations)) {
+                requestBody.toolConfig = {
+                    functionCallingConfig: { mode: 'AUTO' }
+                };
             }
-            throw new Error(errorMessage);
         }
+    }
 
-        if (response.body) {
-            await handleGeminiStreamResponse(response.body, options);
+    // 显式缓存：断点之前的对话连同系统提示词和工具定义放入 cachedContents，请求中只发送之后的部分
+    // 至少保留一条 contents，缓存不可用时退回普通请求
+    if (options.promptCache && breakpointCount > 0 && breakpointCount < contents.length) {
+        const prefix: any = { contents: contents.slice(0, breakpointCount) };
+        for (const key of ['systemInstruction', 'tools', 'toolConfig']) {
+            if (requestBody[key]) prefix[key] = requestBody[key];
         }
-    } catch (error) {
-        // 检查是否是用户主动中断
-        if ((error as Error).name === 'AbortError') {
-            console.log('Gemini request was aborted by user');
-            options.onError?.(new Error('Request aborted'));
-        } else {
-            console.error('Gemini chat error:', error);
-            options.onError?.(error as Error);
+        const cachedContent = await getGeminiCachedContent(
+            baseUrl,
+            apiKey,
+            model,
+            options.promptCacheKey || 'default',
+            prefix,
+            options.transport || fetch,
+            options.signal
+        );
+        if (cachedContent) {
+            requestBody.cachedContent = cachedContent;
+            requestBody.contents = contents.slice(breakpointCount);
+            delete requestBody.systemInstruction;
+            delete requestBody.tools;
+            delete requestBody.toolConfig;
         }
-        throw error;
+    }
+
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/json'
+    };
+
+    options.onRequest?.({ url, headers, body: requestBody });
+    const response = await (options.transport || fetch)(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(requestBody),
+        signal: options.signal // 传递 AbortSignal
+    });
+
+    if (!response.ok) {
+        // 尝试读取错误响应体中的详细错误信息
+        let errorMessage = `API request failed: ${response.status} ${response.statusText}`;
+        try {
+            const errorData = await response.json();
+            // 尝试提取常见的错误消息字段
+            const detailMsg = errorData.error?.message || errorData.message || errorData.error || JSON.stringify(errorData);
+            errorMessage += `\n\n${detailMsg}`;
+        } catch (e) {
+            // 如果无法解析 JSON，尝试读取文本
+            try {
+                const errorText = await response.text();
+                if (errorText) {
+                    errorMessage += `\n\n${errorText}`;
+                }
+            } catch (textError) {
+                // 忽略文本读取错误
+            }
+        }
+        throw createApiError(response, errorMessage);
+    }
+
+    if (response.body) {
+        yield* parseGeminiStream(response.body, options);
     }
 }
 
@@ -858,26 +2216,16 @@ async function imageUrlToBase64(url: string): Promise<string> {
 }
 
 /**
- * 处理 OpenAI 格式的流式响应
+ * 逐行读取 SSE 响应，返回每个 data 字段的内容（忽略 event: 行和 [DONE]）
  */
-async function handleStreamResponse(
-    body: ReadableStream<Uint8Array>,
-    options: ChatOptions
-): Promise<void> {
+async function* readSSEData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
     const reader = body.getReader();
     const decoder = new TextDecoder();
-    let fullText = '';
-    let thinkingText = '';
     let buffer = '';
-    let isThinkingPhase = false;
-    let toolCalls: ToolCall[] = [];
-    let toolCallBuffer: Record<number, { id?: string; name?: string; arguments?: string }> = {};
-    const generatedImages: GeneratedImageData[] = [];
 
     try {
         while (true) {
             const { done, value } = await reader.read();
-
             if (done) break;
 
             buffer += decoder.decode(value, { stream: true });
@@ -886,311 +2234,514 @@ async function handleStreamResponse(
 
             for (const line of lines) {
                 const trimmed = line.trim();
-                if (!trimmed) continue;
+                if (!trimmed || !trimmed.startsWith('data:')) continue;
 
-                if (trimmed.startsWith('data:')) {
-                    const payload = trimmed.slice(5).trimStart();
-                    if (!payload || payload === '[DONE]') continue;
+                const payload = trimmed.slice(5).trimStart();
+                if (!payload || payload === '[DONE]') continue;
+                yield payload;
+            }
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
 
-                    try {
-                        const json = JSON.parse(payload);
-                        const delta = json.choices?.[0]?.delta;
-
-                        // 检查是否有图片数据 (某些 API 可能在流式响应中返回图片)
-                        // 支持多种可能的图片数据格式
-                        if (delta?.images || delta?.image || json.images || json.image) {
-                            const imageData = delta?.images || delta?.image || json.images || json.image;
-                            const imageArray = Array.isArray(imageData) ? imageData : [imageData];
-
-                            for (const img of imageArray) {
-                                if (img.b64_json || img.data) {
-                                    generatedImages.push({
-                                        mimeType: img.mime_type || img.mimeType || 'image/png',
-                                        data: img.b64_json || img.data
-                                    });
-                                } else if (img.url) {
-                                    // 如果只有 URL，需要下载图片并转换为 base64
-                                    // 这里暂时跳过，因为需要异步处理
-                                }
-                            }
-                        }
+/**
+ * 按接口格式解析流式响应，将 SSE 字节流转换为统一的事件
+ * 解析器只使用 options 中的 enableThinking、responseSchema 和 onRawEvent
+ */
+export function parseSSE(
+    format: ApiFormat,
+    body: ReadableStream<Uint8Array>,
+    options: Partial<ChatOptions> = {}
+): AsyncGenerator<ChatStreamEvent> {
+    const parserOptions = options as ChatOptions;
+    switch (format) {
+        case 'openai-responses':
+            return parseResponsesStream(body, parserOptions);
+        case 'gemini':
+            return parseGeminiStream(body, parserOptions);
+        case 'anthropic':
+            return parseClaudeStream(body, parserOptions);
+        default:
+            return parseOpenAIStream(body, parserOptions);
+    }
+}
 
-                        // 检查是否有思考内容
-                        // DeepSeek 使用 reasoning_content
-                        // Gemini OpenAI 兼容模式使用 reasoning（或 thought/thinking）
-                        const reasoningContent = delta?.reasoning_content
-                            || delta?.reasoning
-                            || delta?.thought
-                            || delta?.thinking;
-                        if (options.enableThinking && reasoningContent) {
-                            isThinkingPhase = true;
-                            thinkingText += reasoningContent;
-                            options.onThinkingChunk?.(reasoningContent);
-                        }
+/**
+ * 解析 OpenAI 格式的流式响应
+ */
+async function* parseOpenAIStream(
+    body: ReadableStream<Uint8Array>,
+    options: ChatOptions
+): AsyncGenerator<ChatStreamEvent> {
+    let fullText = '';
+    const toolCallBuffer: Record<number, { id?: string; name?: string; arguments?: string }> = {};
+    const generatedImages: GeneratedImageData[] = [];
+    let usage: TokenUsage | undefined;
+    let finishReason: string | undefined;
 
-                        // 检查是否有工具调用
-                        if (delta?.tool_calls) {
-                            for (const toolCallDelta of delta.tool_calls) {
-                                const index = toolCallDelta.index;
-                                if (!toolCallBuffer[index]) {
-                                    toolCallBuffer[index] = {};
-                                }
-
-                                // 累积工具调用信息
-                                if (toolCallDelta.id) {
-                                    toolCallBuffer[index].id = toolCallDelta.id;
-                                }
-                                if (toolCallDelta.function?.name) {
-                                    toolCallBuffer[index].name = toolCallDelta.function.name;
-                                }
-                                if (toolCallDelta.function?.arguments) {
-                                    toolCallBuffer[index].arguments =
-                                        (toolCallBuffer[index].arguments || '') + toolCallDelta.function.arguments;
-                                }
-                            }
-                        }
+    try {
+        for await (const payload of readSSEData(body)) {
+            options.onRawEvent?.(payload);
 
-                        // 普通内容
-                        const content = delta?.content;
-                        if (content) {
-                            // 如果之前在思考阶段，现在开始输出正文，说明思考结束
-                            if (isThinkingPhase && options.onThinkingComplete) {
-                                options.onThinkingComplete(thinkingText);
-                                isThinkingPhase = false;
-                            }
-                            fullText += content;
-                            options.onChunk?.(content);
-                        }
-                    } catch (e) {
-                        console.error('Failed to parse SSE data:', e);
+            let json: any;
+            try {
+                json = JSON.parse(payload);
+            } catch (e) {
+                console.error('Failed to parse SSE data:', e);
+                continue;
+            }
+
+            const choice = json.choices?.[0];
+            const delta = choice?.delta;
+            if (choice?.finish_reason) {
+                finishReason = choice.finish_reason;
+            }
+
+            // usage 出现在最后一个数据块中（choices 为空）
+            if (json.usage) {
+                usage = parseOpenAIUsage(json.usage);
+            }
+
+            // 检查是否有图片数据 (某些 API 可能在流式响应中返回图片)
+            // 支持多种可能的图片数据格式
+            if (delta?.images || delta?.image || json.images || json.image) {
+                const imageData = delta?.images || delta?.image || json.images || json.image;
+                const imageArray = Array.isArray(imageData) ? imageData : [imageData];
+
+                for (const img of imageArray) {
+                    if (img.b64_json || img.data) {
+                        generatedImages.push({
+                            mimeType: img.mime_type || img.mimeType || 'image/png',
+                            data: img.b64_json || img.data
+                        });
                     }
+                    // 只有 URL 的图片需要下载后转换为 base64，暂不处理
                 }
             }
-        }
 
-        // 如果结束时还在思考阶段，调用思考完成回调
-        if (isThinkingPhase && options.onThinkingComplete) {
-            options.onThinkingComplete(thinkingText);
-        }
+            // 检查是否有思考内容
+            // DeepSeek 使用 reasoning_content
+            // Gemini OpenAI 兼容模式使用 reasoning（或 thought/thinking）
+            const reasoningContent = delta?.reasoning_content
+                || delta?.reasoning
+                || delta?.thought
+                || delta?.thinking;
+            if (options.enableThinking && reasoningContent) {
+                yield { type: 'thinking', text: reasoningContent };
+            }
 
-        // 处理完整的工具调用
-        if (Object.keys(toolCallBuffer).length > 0) {
-            toolCalls = Object.values(toolCallBuffer)
-                .filter(tc => tc.id && tc.name && tc.arguments)
-                .map(tc => ({
-                    id: tc.id!,
-                    type: 'function' as const,
-                    function: {
-                        name: tc.name!,
-                        arguments: tc.arguments!,
-                    },
-                }));
+            // 检查是否有工具调用
+            if (delta?.tool_calls) {
+                for (const toolCallDelta of delta.tool_calls) {
+                    const index = toolCallDelta.index;
+                    if (!toolCallBuffer[index]) {
+                        toolCallBuffer[index] = {};
+                    }
 
-            if (toolCalls.length > 0 && options.onToolCallComplete) {
-                options.onToolCallComplete(toolCalls);
+                    // 累积工具调用信息
+                    if (toolCallDelta.id) {
+                        toolCallBuffer[index].id = toolCallDelta.id;
+                    }
+                    if (toolCallDelta.function?.name) {
+                        toolCallBuffer[index].name = toolCallDelta.function.name;
+                    }
+                    if (toolCallDelta.function?.arguments) {
+                        toolCallBuffer[index].arguments =
+                            (toolCallBuffer[index].arguments || '') + toolCallDelta.function.arguments;
+                    }
+                    yield {
+                        type: 'tool_call_delta',
+                        index,
+                        id: toolCallDelta.id,
+                        name: toolCallDelta.function?.name,
+                        arguments: toolCallDelta.function?.arguments || ''
+                    };
+                }
             }
-        }
 
-        // 如果有生成的图片，调用回调（等待完成，避免与 onComplete 并发竞态）
-        if (generatedImages.length > 0 && options.onImageGenerated) {
-            await options.onImageGenerated(generatedImages);
+            // 普通内容
+            const content = delta?.content;
+            if (content) {
+                fullText += content;
+                yield { type: 'text', text: content };
+            }
         }
-
-        await options.onComplete?.(fullText);
     } catch (error) {
-        // 检查是否是用户主动中断
+        // 用户主动中断时，返回已输出的部分内容
         if ((error as Error).name === 'AbortError') {
-            console.log('Stream reading was aborted');
-            // 如果已经有部分内容，仍然调用 onComplete
-            if (fullText) {
-                await options.onComplete?.(fullText);
-            }
-            if (thinkingText && options.onThinkingComplete) {
-                options.onThinkingComplete(thinkingText);
-            }
-        } else {
-            console.error('Stream reading error:', error);
-            options.onError?.(error as Error);
+            yield { type: 'finish', reason: 'aborted', text: fullText };
         }
         throw error;
-    } finally {
-        reader.releaseLock();
     }
+
+    // 处理完整的工具调用
+    const toolCalls: ToolCall[] = Object.values(toolCallBuffer)
+        .filter(tc => tc.id && tc.name && tc.arguments)
+        .map(tc => ({
+            id: tc.id!,
+            type: 'function' as const,
+            function: {
+                name: tc.name!,
+                arguments: tc.arguments!,
+            },
+        }));
+    if (toolCalls.length > 0) {
+        yield { type: 'tool_call_done', toolCalls };
+    }
+
+    if (generatedImages.length > 0) {
+        yield { type: 'image', images: generatedImages };
+    }
+
+    if (usage) {
+        yield { type: 'usage', usage };
+    }
+
+    yield {
+        type: 'finish',
+        reason: normalizeFinishReason(finishReason, toolCalls.length > 0),
+        text: fullText
+    };
 }
 
 /**
- * 处理 Gemini 格式的流式响应
+ * 解析 Gemini 格式的流式响应
  */
-async function handleGeminiStreamResponse(
+async function* parseGeminiStream(
     body: ReadableStream<Uint8Array>,
     options: ChatOptions
-): Promise<void> {
-    const reader = body.getReader();
-    const decoder = new TextDecoder();
+): AsyncGenerator<ChatStreamEvent> {
     let fullText = '';
-    let thinkingText = '';
-    let buffer = '';
-    let isThinkingPhase = false;
     const generatedImages: GeneratedImageData[] = [];
+    const toolCalls: ToolCall[] = [];
+    let usage: TokenUsage | undefined;
+    let finishReason: string | undefined;
+
+    try {
+        for await (const payload of readSSEData(body)) {
+            options.onRawEvent?.(payload);
+
+            let json: any;
+            try {
+                json = JSON.parse(payload);
+            } catch (e) {
+                console.error('Failed to parse Gemini SSE data:', e);
+                continue;
+            }
+
+            const candidate = json.candidates?.[0];
+            const parts = candidate?.content?.parts;
+            if (candidate?.finishReason) {
+                finishReason = candidate.finishReason;
+            }
+
+            // 每个数据块都带有累计的 usageMetadata，以最后一个为准
+            if (json.usageMetadata) {
+                usage = parseGeminiUsage(json.usageMetadata);
+            }
+
+            if (!Array.isArray(parts)) continue;
+
+            for (const part of parts) {
+                // 处理生成的图片（兼容 inline_data / inlineData）
+                const inlineData = part.inline_data || part.inlineData;
+                if (inlineData) {
+                    generatedImages.push({
+                        mimeType: inlineData.mime_type || inlineData.mimeType || 'image/png',
+                        data: inlineData.data
+                    });
+                    continue;
+                }
+
+                // 处理函数调用（Gemini 一次性返回完整参数）
+                if (part.functionCall) {
+                    const toolCall: ToolCall = {
+                        id: part.functionCall.id || `call_${Date.now()}_${toolCalls.length}`,
+                        type: 'function',
+                        function: {
+                            name: part.functionCall.name,
+                            arguments: JSON.stringify(part.functionCall.args || {})
+                        }
+                    };
+                    if (part.thoughtSignature) {
+                        toolCall.thoughtSignature = part.thoughtSignature;
+                    }
+                    yield {
+                        type: 'tool_call_delta',
+                        index: toolCalls.length,
+                        id: toolCall.id,
+                        name: toolCall.function.name,
+                        arguments: toolCall.function.arguments
+                    };
+                    toolCalls.push(toolCall);
+                    continue;
+                }
+
+                if (!part.text) continue;
+
+                // part.thought 是布尔值，表示这个 part 是否是思考内容
+                if (options.enableThinking && part.thought === true) {
+                    yield { type: 'thinking', text: part.text };
+                } else {
+                    fullText += part.text;
+                    yield { type: 'text', text: part.text };
+                }
+            }
+        }
+    } catch (error) {
+        if ((error as Error).name === 'AbortError') {
+            yield { type: 'finish', reason: 'aborted', text: fullText };
+        }
+        throw error;
+    }
+
+    if (toolCalls.length > 0) {
+        yield { type: 'tool_call_done', toolCalls };
+    }
+
+    if (generatedImages.length > 0) {
+        yield { type: 'image', images: generatedImages };
+    }
+
+    if (usage) {
+        yield { type: 'usage', usage };
+    }
+
+    yield {
+        type: 'finish',
+        reason: normalizeFinishReason(finishReason, toolCalls.length > 0),
+        text: fullText
+    };
+}
+
+/**
+ * 将 OpenAI 格式的工具列表转换为 Claude tools（{ name, description, input_schema }）
+ * 非函数格式的工具（如 web_search_20250305 等 Claude 服务端工具）原样保留
+ */
+function convertToolsToClaude(tools: any[]): any[] {
+    const result: any[] = [];
+    for (const tool of tools) {
+        if (!tool || typeof tool !== 'object') continue;
+
+        const fn = tool.type === 'function' ? tool.function : null;
+        if (!fn) {
+            result.push(tool);
+            continue;
+        }
+
+        // googleSearch 仅适用于 Gemini
+        if (!fn.name || fn.name === 'googleSearch') continue;
+
+        result.push({
+            name: fn.name,
+            description: fn.description || '',
+            input_schema: fn.parameters || { type: 'object', properties: {} }
+        });
+    }
+    return result;
+}
+
+/**
+ * 将消息内容转换为 Claude 内容块（文本和图片）
+ */
+async function buildClaudeContentBlocks(
+    content: string | MessageContent[],
+    nativeDocuments: boolean
+): Promise<any[]> {
+    if (typeof content === 'string') {
+        return content ? [{ type: 'text', text: content }] : [];
+    }
+
+    // Claude 使用不同的格式
+    const blocks: any[] = [];
+    for (const part of content) {
+        if (part.type === 'text' && part.text) {
+            blocks.push({ type: 'text', text: part.text });
+        } else if (part.type === 'image_url' && part.image_url) {
+            // Claude 使用 base64 格式
+            let base64Data = '';
+            let mediaType = 'image/jpeg';
+
+            if (part.image_url.url.startsWith('data:')) {
+                const match = part.image_url.url.match(/^data:(image\/\w+);base64,(.+)$/);
+                if (match) {
+                    mediaType = match[1];
+                    base64Data = match[2];
+                }
+            } else if (part.image_url.url.startsWith('blob:')) {
+                base64Data = await imageUrlToBase64(part.image_url.url);
+            }
+
+            if (base64Data) {
+                blocks.push({
+                    type: 'image',
+                    source: {
+                        type: 'base64',
+                        media_type: mediaType,
+                        data: base64Data
+                    }
+                });
+            }
+        } else if (part.type === 'file' && part.file) {
+            // Claude 使用 document 内容块发送 PDF，其他文档使用提取的文本
+            if (nativeDocuments && isNativeDocument(part.file)) {
+                blocks.push({
+                    type: 'document',
+                    source: {
+                        type: 'base64',
+                        media_type: 'application/pdf',
+                        data: getDataUrlBase64(part.file.file_data)
+                    },
+                    title: part.file.filename
+                });
+            } else {
+                blocks.push({ type: 'text', text: formatDocumentText(part.file) });
+            }
+        }
+    }
+    return blocks;
+}
 
+/**
+ * 将 ToolCall 转换为 Claude tool_use 内容块
+ */
+function toClaudeToolUseBlock(toolCall: ToolCall): any {
+    let input: any = {};
     try {
-        while (true) {
-            const { done, value } = await reader.read();
+        input = toolCall.function.arguments ? JSON.parse(toolCall.function.arguments) : {};
+    } catch (e) {
+        console.warn('Failed to parse tool call arguments for Claude:', toolCall.function.arguments);
+    }
+    return {
+        type: 'tool_use',
+        id: toolCall.id,
+        name: toolCall.function.name,
+        input
+    };
+}
 
-            if (done) break;
+/**
+ * 转换为 Claude messages 格式
+ *
+ * 侧边栏的 Agent 循环会把多轮工具调用合并到同一条 assistant 消息中，
+ * 这里按思考块（附加在每轮第一个工具调用上）重新拆分为多轮，
+ * 每轮 assistant 的 tool_use 之后紧跟包含 tool_result 的 user 消息，
+ * 以便思考模式下思考块及其签名能够随对应的工具调用回传。
+ *
+ * 启用提示词缓存时，在标记了 cacheBreakpoint 的消息的最后一个内容块上设置 cache_control，
+ * Claude 每个请求最多 4 个断点，system 占用 1 个，这里只保留最后 3 个。
+ */
+async function buildClaudeMessages(
+    messages: Message[],
+    promptCache = false,
+    nativeDocuments = false
+): Promise<any[]> {
+    const result: Array<{ role: 'user' | 'assistant'; content: any[] }> = [];
+    const nonSystemMessages = messages.filter(msg => msg.role !== 'system');
+
+    // 按 tool_call_id 索引工具结果
+    const toolResults = new Map<string, Message>();
+    for (const msg of nonSystemMessages) {
+        if (msg.role === 'tool' && msg.tool_call_id) {
+            toolResults.set(msg.tool_call_id, msg);
+        }
+    }
 
-            buffer += decoder.decode(value, { stream: true });
-            const lines = buffer.split('\n');
-            buffer = lines.pop() || '';
+    // 追加内容块，相邻的同角色消息合并（Claude 要求 user/assistant 交替）
+    const append = (role: 'user' | 'assistant', blocks: any[]) => {
+        if (blocks.length === 0) return;
+        const last = result[result.length - 1];
+        if (last && last.role === role) {
+            last.content.push(...blocks);
+        } else {
+            result.push({ role, content: [...blocks] });
+        }
+    };
 
-            for (const line of lines) {
-                const trimmed = line.trim();
-                if (!trimmed || !trimmed.startsWith('data:')) continue;
+    // 缓存断点所在的内容块
+    const breakpointBlocks: any[] = [];
 
-                const payload = trimmed.slice(5).trimStart();
-                if (!payload || payload === '[DONE]') continue;
+    for (const msg of nonSystemMessages) {
+        // 工具结果随对应的 tool_use 一起输出，孤立的工具结果直接丢弃
+        if (msg.role === 'tool') continue;
 
-                try {
-                    const json = JSON.parse(payload);
-                    const parts = json.candidates?.[0]?.content?.parts;
-
-                    if (parts && Array.isArray(parts)) {
-                        for (const part of parts) {
-                            // 处理生成的图片（兼容 inline_data / inlineData）
-                            const inlineData = part.inline_data || part.inlineData;
-                            if (inlineData) {
-                                const imageData: GeneratedImageData = {
-                                    mimeType: inlineData.mime_type || inlineData.mimeType || 'image/png',
-                                    data: inlineData.data
-                                };
-                                generatedImages.push(imageData);
-                                continue;
-                            }
-
-                            if (!part.text) continue;
-
-                            // part.thought 是布尔值，表示这个 part 是否是思考内容
-                            if (options.enableThinking && part.thought === true) {
-                                // 这是思考内容
-                                isThinkingPhase = true;
-                                thinkingText += part.text;
-                                options.onThinkingChunk?.(part.text);
-                            } else if (part.text) {
-                                // 这是正常回复内容
-                                // 如果之前在思考阶段，现在开始输出正文，说明思考结束
-                                if (isThinkingPhase && options.onThinkingComplete) {
-                                    options.onThinkingComplete(thinkingText);
-                                    isThinkingPhase = false;
-                                }
-                                fullText += part.text;
-                                options.onChunk?.(part.text);
-                            }
-                        }
-                    }
-                } catch (e) {
-                    console.error('Failed to parse Gemini SSE data:', e);
-                }
+        const contentBlocks = await buildClaudeContentBlocks(msg.content, nativeDocuments);
+
+        if (msg.role !== 'assistant' || !msg.tool_calls || msg.tool_calls.length === 0) {
+            append(msg.role === 'assistant' ? 'assistant' : 'user', contentBlocks);
+            if (msg.cacheBreakpoint && contentBlocks.length > 0) {
+                breakpointBlocks.push(contentBlocks[contentBlocks.length - 1]);
             }
+            continue;
         }
 
-        // 如果结束时还在思考阶段，调用思考完成回调
-        if (isThinkingPhase && options.onThinkingComplete) {
-            options.onThinkingComplete(thinkingText);
+        // 只保留有结果的工具调用，避免出现没有 tool_result 的 tool_use
+        const answeredCalls = msg.tool_calls.filter(tc => toolResults.has(tc.id));
+        if (answeredCalls.length === 0) {
+            append('assistant', contentBlocks);
+            continue;
         }
 
-        // 如果有生成的图片，调用回调（等待完成，避免与 onComplete 并发竞态）
-        if (generatedImages.length > 0 && options.onImageGenerated) {
-            await options.onImageGenerated(generatedImages);
+        // 按思考块拆分工具调用轮次
+        const rounds: ToolCall[][] = [];
+        for (const toolCall of answeredCalls) {
+            if (rounds.length === 0 || (toolCall.thinkingBlocks && toolCall.thinkingBlocks.length > 0)) {
+                rounds.push([toolCall]);
+            } else {
+                rounds[rounds.length - 1].push(toolCall);
+            }
         }
 
-        await options.onComplete?.(fullText);
-    } catch (error) {
-        // 检查是否是用户主动中断
-        if ((error as Error).name === 'AbortError') {
-            console.log('Gemini stream reading was aborted');
-            // 如果已经有部分内容，仍然调用 onComplete
-            if (fullText) {
-                await options.onComplete?.(fullText);
-            }
-            if (thinkingText && options.onThinkingComplete) {
-                options.onThinkingComplete(thinkingText);
-            }
-        } else {
-            console.error('Gemini stream reading error:', error);
-            options.onError?.(error as Error);
+        rounds.forEach((roundCalls, roundIndex) => {
+            const assistantBlocks: any[] = [
+                ...(roundCalls[0].thinkingBlocks || []).map(block => ({ ...block })),
+                ...(roundIndex === 0 ? contentBlocks : []),
+                ...roundCalls.map(toClaudeToolUseBlock)
+            ];
+            append('assistant', assistantBlocks);
+
+            append('user', roundCalls.map(toolCall => {
+                const toolMessage = toolResults.get(toolCall.id)!;
+                return {
+                    type: 'tool_result',
+                    tool_use_id: toolCall.id,
+                    content: getMessageText(toolMessage.content)
+                };
+            }));
+        });
+    }
+
+    if (promptCache) {
+        for (const block of breakpointBlocks.slice(-3)) {
+            block.cache_control = { type: 'ephemeral' };
         }
-        throw error;
-    } finally {
-        reader.releaseLock();
     }
+
+    return result;
 }
 
 /**
  * 发送聊天请求 (Claude 原生 API 格式)
  */
-async function chatClaudeFormat(
-    baseUrl: string,
+async function* chatClaudeFormat(
+    url: string,
     apiKey: string,
-    options: ChatOptions
-): Promise<void> {
-    const url = `${baseUrl}/v1/messages`;
-
+    options: ChatOptions,
+    nativeDocuments: boolean = false
+): AsyncGenerator<ChatStreamEvent> {
     // 提取 system 消息
     const systemMessages = options.messages.filter(msg => msg.role === 'system');
     const systemPrompt = systemMessages.map(msg =>
         typeof msg.content === 'string' ? msg.content : msg.content.map(c => c.text).join('\n')
     ).join('\n');
 
-    // 转换消息格式（只保留 user 和 assistant）
-    const formattedMessages = await Promise.all(
-        options.messages
-            .filter(msg => msg.role !== 'system')
-            .map(async msg => {
-                const formatted: any = {
-                    role: msg.role,
-                };
-
-                // 处理多模态内容
-                if (typeof msg.content === 'string') {
-                    formatted.content = msg.content;
-                } else {
-                    // Claude 使用不同的格式
-                    const content: any[] = [];
-                    for (const part of msg.content) {
-                        if (part.type === 'text' && part.text) {
-                            content.push({ type: 'text', text: part.text });
-                        } else if (part.type === 'image_url' && part.image_url) {
-                            // Claude 使用 base64 格式
-                            let base64Data = '';
-                            let mediaType = 'image/jpeg';
-
-                            if (part.image_url.url.startsWith('data:')) {
-                                const match = part.image_url.url.match(/^data:(image\/\w+);base64,(.+)$/);
-                                if (match) {
-                                    mediaType = match[1];
-                                    base64Data = match[2];
-                                }
-                            } else if (part.image_url.url.startsWith('blob:')) {
-                                base64Data = await imageUrlToBase64(part.image_url.url);
-                            }
-
-                            if (base64Data) {
-                                content.push({
-                                    type: 'image',
-                                    source: {
-                                        type: 'base64',
-                                        media_type: mediaType,
-                                        data: base64Data
-                                    }
-                                });
-                            }
-                        }
-                    }
-                    formatted.content = content;
-                }
-
-                return formatted;
-            })
+    // 转换消息格式（只保留 user 和 assistant，工具调用转换为 tool_use/tool_result 内容块）
+    const formattedMessages = await buildClaudeMessages(
+        options.messages,
+        options.promptCache,
+        nativeDocuments
     );
 
     const requestBody: any = {
@@ -1202,18 +2753,37 @@ async function chatClaudeFormat(
         ...options.customBody // 合并自定义参数
     };
 
-    // 添加 system 消息
+    // 添加 system 消息，启用提示词缓存时在 system 之后设置断点
     if (systemPrompt) {
-        requestBody.system = systemPrompt;
+        requestBody.system = options.promptCache
+            ? [{ type: 'text', text: systemPrompt, cache_control: { type: 'ephemeral' } }]
+            : systemPrompt;
     }
 
     // 添加工具定义（包括联网搜索工具）
     if (options.tools && options.tools.length > 0) {
-        requestBody.tools = options.tools;
+        const claudeTools = convertToolsToClaude(options.tools);
+        if (claudeTools.length > 0) {
+            requestBody.tools = claudeTools;
+        }
+    }
+
+    // 结构化输出：通过强制调用同名工具获得符合 Schema 的参数
+    const structuredToolName = options.responseSchema?.name;
+    if (options.responseSchema) {
+        requestBody.tools = [
+            ...(requestBody.tools || []),
+            {
+                name: options.responseSchema.name,
+                description: options.responseSchema.description || options.responseSchema.name,
+                input_schema: options.responseSchema.schema
+            }
+        ];
+        requestBody.tool_choice = { type: 'tool', name: options.responseSchema.name };
     }
 
-    // 处理思考模式
-    if (options.enableThinking) {
+    // 处理思考模式（强制调用工具时不支持思考）
+    if (options.enableThinking && !options.responseSchema) {
         const reasoningEffort = options.reasoningEffort || 'low';
         const budgetTokens = calculateClaudeThinkingBudget(
             options.model,
@@ -1226,234 +2796,846 @@ async function chatClaudeFormat(
         };
     }
 
-    const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01'
-    };
+    const headers = buildAnthropicHeaders(apiKey);
+
+    options.onRequest?.({ url, headers, body: requestBody });
+    const response = await (options.transport || fetch)(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(requestBody),
+        signal: options.signal
+    });
+
+    if (!response.ok) {
+        let errorMessage = `Claude API request failed: ${response.status} ${response.statusText}`;
+        try {
+            const errorData = await response.json();
+            const detailMsg = errorData.error?.message || errorData.message || JSON.stringify(errorData);
+            errorMessage += `\n\n${detailMsg}`;
+        } catch (e) {
+            try {
+                const errorText = await response.text();
+                if (errorText) {
+                    errorMessage += `\n\n${errorText}`;
+                }
+            } catch (textError) {
+                // 忽略文本读取错误
+            }
+        }
+        throw createApiError(response, errorMessage);
+    }
+
+    if (options.stream !== false && response.body) {
+        yield* parseClaudeStream(response.body, options);
+    } else {
+        const data = await response.json();
+        options.onRawEvent?.(JSON.stringify(data));
+        const blocks: any[] = data.content || [];
+        // 结构化输出的工具参数作为回复正文
+        const isStructuredBlock = (block: any) =>
+            block.type === 'tool_use' && block.name === structuredToolName;
+        const content = blocks
+            .filter(block => block.type === 'text' || isStructuredBlock(block))
+            .map(block => (isStructuredBlock(block) ? JSON.stringify(block.input || {}) : block.text))
+            .join('');
+        const thinkingBlocks: ClaudeThinkingBlock[] = blocks
+            .filter(block => block.type === 'thinking' || block.type === 'redacted_thinking')
+            .map(block => ({ ...block }));
+        const toolCalls: ToolCall[] = blocks
+            .filter(block => block.type === 'tool_use' && !isStructuredBlock(block))
+            .map(block => ({
+                id: block.id,
+                type: 'function' as const,
+                function: {
+                    name: block.name,
+                    arguments: JSON.stringify(block.input || {})
+                }
+            }));
+        if (content) {
+            yield { type: 'text', text: content };
+        }
+        if (toolCalls.length > 0) {
+            if (thinkingBlocks.length > 0) {
+                toolCalls[0].thinkingBlocks = thinkingBlocks;
+            }
+            yield { type: 'tool_call_done', toolCalls };
+        }
+        const usage = parseClaudeUsage(data.usage);
+        if (usage) {
+            yield { type: 'usage', usage };
+        }
+        // 结构化输出通过强制工具调用实现，结束原因按正常结束处理
+        const stopReason = data.stop_reason === 'tool_use' && toolCalls.length === 0 ? 'end_turn' : data.stop_reason;
+        yield { type: 'finish', reason: normalizeFinishReason(stopReason), text: content };
+    }
+}
+
+/**
+ * 解析 Claude 格式的流式响应
+ */
+async function* parseClaudeStream(
+    body: ReadableStream<Uint8Array>,
+    options: ChatOptions
+): AsyncGenerator<ChatStreamEvent> {
+    let fullText = '';
+    // 按内容块 index 记录的思考块和工具调用
+    const thinkingBlocks: Record<number, ClaudeThinkingBlock> = {};
+    const toolUseBuffer: Record<number, { id: string; name: string; arguments: string }> = {};
+    // 结构化输出的工具调用块，参数片段作为回复正文输出
+    const structuredBlocks = new Set<number>();
+    // message_start 返回输入用量，message_delta 返回累计的输出用量
+    let rawUsage: any;
+    let finishReason: string | undefined;
 
     try {
-        const response = await fetch(url, {
-            method: 'POST',
-            headers,
-            body: JSON.stringify(requestBody),
-            signal: options.signal
-        });
+        for await (const payload of readSSEData(body)) {
+            options.onRawEvent?.(payload);
 
-        if (!response.ok) {
-            let errorMessage = `Claude API request failed: ${response.status} ${response.statusText}`;
+            let json: any;
             try {
-                const errorData = await response.json();
-                const detailMsg = errorData.error?.message || errorData.message || JSON.stringify(errorData);
-                errorMessage += `\n\n${detailMsg}`;
+                json = JSON.parse(payload);
             } catch (e) {
-                try {
-                    const errorText = await response.text();
-                    if (errorText) {
-                        errorMessage += `\n\n${errorText}`;
+                console.error('Failed to parse Claude SSE data:', e);
+                continue;
+            }
+
+            if (json.type === 'message_start') {
+                rawUsage = { ...json.message?.usage };
+            } else if (json.type === 'message_delta') {
+                if (json.usage) {
+                    rawUsage = { ...rawUsage, ...json.usage };
+                }
+                if (json.delta?.stop_reason) {
+                    finishReason = json.delta.stop_reason;
+                }
+            } else if (json.type === 'content_block_start') {
+                const block = json.content_block;
+                if (block?.type === 'thinking') {
+                    thinkingBlocks[json.index] = {
+                        type: 'thinking',
+                        thinking: block.thinking || '',
+                        signature: block.signature || ''
+                    };
+                } else if (block?.type === 'redacted_thinking') {
+                    thinkingBlocks[json.index] = {
+                        type: 'redacted_thinking',
+                        data: block.data
+                    };
+                } else if (block?.type === 'tool_use' && block.name === options.responseSchema?.name) {
+                    structuredBlocks.add(json.index);
+                } else if (block?.type === 'tool_use') {
+                    toolUseBuffer[json.index] = {
+                        id: block.id,
+                        name: block.name,
+                        arguments: ''
+                    };
+                    yield { type: 'tool_call_delta', index: json.index, id: block.id, name: block.name, arguments: '' };
+                }
+            } else if (json.type === 'content_block_delta') {
+                const delta = json.delta;
+
+                if (delta?.type === 'text_delta' && delta.text) {
+                    fullText += delta.text;
+                    yield { type: 'text', text: delta.text };
+                }
+
+                // 思考内容
+                if (delta?.type === 'thinking_delta' && delta.thinking) {
+                    if (thinkingBlocks[json.index]) {
+                        thinkingBlocks[json.index].thinking += delta.thinking;
+                    }
+                    yield { type: 'thinking', text: delta.thinking };
+                }
+
+                // 思考块签名（工具调用时需要回传）
+                if (delta?.type === 'signature_delta' && thinkingBlocks[json.index]) {
+                    thinkingBlocks[json.index].signature =
+                        (thinkingBlocks[json.index].signature || '') + delta.signature;
+                }
+
+                if (delta?.type === 'input_json_delta' && delta.partial_json) {
+                    if (structuredBlocks.has(json.index)) {
+                        // 结构化输出的 JSON 片段
+                        fullText += delta.partial_json;
+                        yield { type: 'text', text: delta.partial_json };
+                    } else if (toolUseBuffer[json.index]) {
+                        // 工具调用参数（JSON 片段）
+                        toolUseBuffer[json.index].arguments += delta.partial_json;
+                        yield { type: 'tool_call_delta', index: json.index, arguments: delta.partial_json };
                     }
-                } catch (textError) {
-                    // 忽略文本读取错误
                 }
             }
-            throw new Error(errorMessage);
+        }
+    } catch (error) {
+        if ((error as Error).name === 'AbortError') {
+            yield { type: 'finish', reason: 'aborted', text: fullText };
+        }
+        throw error;
+    }
+
+    // 处理完整的工具调用
+    const blockIndexes = (record: Record<number, unknown>) =>
+        Object.keys(record).map(Number).sort((a, b) => a - b);
+    const toolCalls: ToolCall[] = blockIndexes(toolUseBuffer).map(index => ({
+        id: toolUseBuffer[index].id,
+        type: 'function' as const,
+        function: {
+            name: toolUseBuffer[index].name,
+            // 无参数的工具不会产生 input_json_delta
+            arguments: toolUseBuffer[index].arguments || '{}'
+        }
+    }));
+    if (toolCalls.length > 0) {
+        // 思考块附加在本轮第一个工具调用上，下一轮请求时原样回传
+        const roundThinkingBlocks = blockIndexes(thinkingBlocks).map(index => thinkingBlocks[index]);
+        if (roundThinkingBlocks.length > 0) {
+            toolCalls[0].thinkingBlocks = roundThinkingBlocks;
+        }
+        yield { type: 'tool_call_done', toolCalls };
+    }
+
+    const usage = parseClaudeUsage(rawUsage);
+    if (usage) {
+        yield { type: 'usage', usage };
+    }
+
+    // 结构化输出通过强制工具调用实现，结束原因按正常结束处理
+    if (finishReason === 'tool_use' && toolCalls.length === 0) {
+        finishReason = 'end_turn';
+    }
+    yield {
+        type: 'finish',
+        reason: normalizeFinishReason(finishReason, toolCalls.length > 0),
+        text: fullText
+    };
+}
+
+// 全局请求检查器，开启请求记录时由插件设置
+let chatInspector: ChatInspector | null = null;
+
+/**
+ * 设置全局请求检查器，传入 null 关闭
+ */
+export function setChatInspector(inspector: ChatInspector | null): void {
+    chatInspector = inspector;
+}
+
+/**
+ * 以异步迭代器的形式发送聊天请求，逐个产生文本、思考、工具调用、图片、用量和结束事件
+ * 根据平台的接口格式（而不是模型ID）选择 OpenAI / Gemini / Anthropic 请求方式
+ * 用户中断时先产生 reason 为 aborted 的 finish 事件（包含已输出的正文），再抛出 AbortError
+ */
+export async function* streamChat(
+    provider: string,
+    options: ChatOptions,
+    customApiUrl?: string,
+    advancedConfig?: AdvancedConfig
+): AsyncGenerator<ChatStreamEvent, void, undefined> {
+    if (chatInspector) {
+        options = chatInspector(provider, options);
+    }
+    yield* sendChatRequest(provider, options, customApiUrl, advancedConfig);
+}
+
+/**
+ * 按平台的接口格式构建并发送聊天请求（不经过请求检查器）
+ */
+async function* sendChatRequest(
+    provider: string,
+    options: ChatOptions,
+    customApiUrl?: string,
+    advancedConfig?: AdvancedConfig
+): AsyncGenerator<ChatStreamEvent, void, undefined> {
+    if (hasCustomTransport(advancedConfig) && !options.transport) {
+        options = { ...options, transport: getProviderFetch(advancedConfig) };
+    }
+
+    let failure: Error | undefined;
+    try {
+        // 模型单独指定的接口格式优先
+        const { config, isBuiltIn, apiFormat } = resolveProviderConfig(
+            provider,
+            options.apiFormat ? { ...advancedConfig, apiFormat: options.apiFormat } : advancedConfig
+        );
+
+        if (options.parameters) {
+            options = {
+                ...options,
+                customBody: getModelRequestBody(apiFormat, options.parameters, options.customBody, {
+                    modelId: options.model,
+                    enableThinking: options.enableThinking
+                })
+            };
+        }
+
+        let url: string;
+        let baseUrlForGemini: string; // Gemini format needs a base url
+
+        // 优先使用高级自定义的对话 URL
+        if (advancedConfig?.customChatUrl) {
+            url = advancedConfig.customChatUrl;
+            baseUrlForGemini = advancedConfig.customChatUrl.replace(/\/v1.*$/, '');
+        } else if (provider === 'azure') {
+            // Azure 按部署拼接 URL，模型ID即部署名称
+            if (!customApiUrl) {
+                throw new Error('Azure OpenAI requires endpoint URL');
+            }
+            url = buildAzureChatUrl(customApiUrl, options.model, apiFormat, options.apiVersion);
+            baseUrlForGemini = customApiUrl;
+        } else if (customApiUrl) {
+            const { baseUrl, endpoint } = getBaseUrlAndEndpoint(customApiUrl, config.chatEndpoint);
+            url = `${baseUrl}${endpoint}`;
+            baseUrlForGemini = baseUrl;
+        } else {
+            if (!isBuiltIn && provider !== 'custom') {
+                throw new Error('Custom provider requires API URL');
+            }
+            url = `${config.baseUrl}${config.chatEndpoint}`;
+            baseUrlForGemini = config.baseUrl;
         }
 
-        if (options.stream !== false && response.body) {
-            await handleClaudeStreamResponse(response.body, options);
+        // 原生发送 PDF 需要模型支持（模型信息库的 documents 能力），平台可以在高级设置中关闭，
+        // 否则发送本地提取的文本
+        const nativeDocuments =
+            advancedConfig?.nativeDocuments !== false &&
+            !!getModelRegistryInfo(options.model).capabilities.documents;
+
+        if (apiFormat === 'anthropic') {
+            yield* chatClaudeFormat(url, options.apiKey, options, nativeDocuments);
+        } else if (apiFormat === 'gemini') {
+            yield* chatGeminiFormat(baseUrlForGemini, options.apiKey, options.model, options, nativeDocuments);
+        } else if (apiFormat === 'openai-responses') {
+            yield* chatOpenAIResponsesFormat(url, options.apiKey, options, config.apiKeyHeader, nativeDocuments);
         } else {
-            const data = await response.json();
-            const content = data.content?.[0]?.text || '';
-            options.onChunk?.(content);
-            options.onComplete?.(content);
+            // 只有 OpenAI 官方接口（含 Azure）支持 file 内容，其他兼容平台大多会拒绝
+            yield* chatOpenAIFormat(
+                url,
+                options.apiKey,
+                options,
+                config.apiKeyHeader,
+                nativeDocuments && (provider === 'openai' || provider === 'azure')
+            );
+        }
+    } catch (error) {
+        failure = error as Error;
+        throw error;
+    } finally {
+        options.onRequestEnd?.(failure);
+    }
+}
+
+/**
+ * 生成请求体预览：使用与发送请求相同的构建流程，在发送前取得最终的请求体，不发送请求
+ * 请求地址不影响请求体，使用占位地址以便未填写地址的平台也能预览
+ */
+export async function buildChatRequestBodyPreview(
+    provider: string,
+    options: ChatOptions,
+    customApiUrl?: string,
+    advancedConfig?: AdvancedConfig
+): Promise<any> {
+    let body: any = null;
+    const previewOptions: ChatOptions = {
+        ...options,
+        onRequest: request => {
+            body = request.body;
+        },
+        transport: () => Promise.reject(new Error('Request preview'))
+    };
+    try {
+        // 取得请求体后请求在发送时中止，不会产生事件
+        await sendChatRequest(provider, previewOptions, customApiUrl, {
+            ...advancedConfig,
+            customChatUrl: advancedConfig?.customChatUrl || 'https://example.com/v1/chat/completions'
+        }).next();
+    } catch {
+        // 忽略中止请求的错误
+    }
+    return body;
+}
+
+/**
+ * 发送聊天请求，通过回调返回结果（基于 streamChat）
+ */
+export async function chat(
+    provider: string,
+    options: ChatOptions,
+    customApiUrl?: string,
+    advancedConfig?: AdvancedConfig
+): Promise<void> {
+    let thinkingText = '';
+    let isThinkingPhase = false;
+    // 思考结束（开始输出其他内容或请求结束）时调用思考完成回调
+    const completeThinking = () => {
+        if (isThinkingPhase) {
+            isThinkingPhase = false;
+            options.onThinkingComplete?.(thinkingText);
+        }
+    };
+
+    try {
+        for await (const event of streamChat(provider, options, customApiUrl, advancedConfig)) {
+            if (event.type === 'thinking') {
+                isThinkingPhase = true;
+                thinkingText += event.text;
+                options.onThinkingChunk?.(event.text);
+                continue;
+            }
+            completeThinking();
+
+            switch (event.type) {
+                case 'text':
+                    options.onChunk?.(event.text);
+                    break;
+                case 'tool_call_done':
+                    event.toolCalls.forEach(toolCall => options.onToolCall?.(toolCall));
+                    options.onToolCallComplete?.(event.toolCalls);
+                    break;
+                case 'image':
+                    // 等待完成，避免与 onComplete 并发竞态
+                    await options.onImageGenerated?.(event.images);
+                    break;
+                case 'usage':
+                    options.onUsage?.(event.usage);
+                    break;
+                case 'finish':
+                    // 中断时只有已输出部分内容才调用 onComplete
+                    if (event.reason !== 'aborted' || event.text) {
+                        await options.onComplete?.(event.text);
+                    }
+                    break;
+            }
         }
     } catch (error) {
+        completeThinking();
+        // 检查是否是用户主动中断
         if ((error as Error).name === 'AbortError') {
-            console.log('Claude request was aborted by user');
+            console.log('Request was aborted by user');
             options.onError?.(new Error('Request aborted'));
         } else {
-            console.error('Claude chat error:', error);
+            console.error('Chat error:', error);
             options.onError?.(error as Error);
         }
         throw error;
     }
 }
 
+// 重试策略
+export interface RetryPolicy {
+    maxRetries?: number; // 每个模型的最大重试次数，默认 2
+    baseDelay?: number; // 首次重试前的等待时间（毫秒），之后按指数增长，默认 1000
+    maxDelay?: number; // 单次等待的上限（毫秒），默认 30000
+}
+
+// 备用模型：主模型失败后按顺序尝试
+export interface ChatFallback {
+    provider: string;
+    options: Partial<ChatOptions>; // 覆盖主请求的参数（model、apiKey、maxTokens 等）
+    customApiUrl?: string;
+    advancedConfig?: AdvancedConfig;
+    label?: string; // 显示名称
+}
+
+export interface ChatRetryInfo {
+    provider: string; // 即将请求的平台
+    model: string; // 即将请求的模型
+    label?: string;
+    attempt: number; // 当前模型的第几次重试，切换模型时为 0
+    delay: number; // 本次请求前等待的时间（毫秒）
+    error: Error; // 上一次失败的错误
+    isFallback: boolean; // 是否为备用模型
+}
+
+// API Key 选择器：平台配置了多个 Key 时，每次请求前选择 Key，请求结束后报告结果
+export interface ApiKeySelector {
+    // 为本次请求选择 Key，返回 undefined 时使用请求参数中的 apiKey
+    select: (provider: string) => string | undefined;
+    // 报告请求结果（成功时 error 为空），返回该 Key 被停用后是否还有其他可用的 Key
+    report: (provider: string, apiKey: string, error?: ApiRequestError) => boolean;
+}
+
+export interface ChatRetryOptions extends RetryPolicy {
+    fallbacks?: ChatFallback[];
+    // 重试或切换模型前调用，调用方应丢弃上一次请求已输出的部分内容
+    onRetry?: (info: ChatRetryInfo) => void;
+    apiKeySelector?: ApiKeySelector; // 多 Key 轮换，Key 被限流或失效时立即换用其他 Key 重试
+}
+
+// 最终完成请求的模型
+export interface ChatAttemptResult {
+    provider: string;
+    model: string;
+    label?: string;
+    isFallback: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+    maxRetries: 2,
+    baseDelay: 1000,
+    maxDelay: 30000
+};
+
+/**
+ * 判断错误是否可以重试：429、408、5xx 以及网络错误
+ */
+function isRetryableError(error: ApiRequestError): boolean {
+    if (error.name === 'AbortError') return false;
+    if (error.status !== undefined) {
+        return error.status === 408 || error.status === 429 || error.status >= 500;
+    }
+    // 没有状态码：fetch 失败或流读取中断
+    return error.name === 'TypeError' ||
+        /network|fetch|socket|timeout|timed out|ECONN|overloaded/i.test(error.message);
+}
+
 /**
- * 处理 Claude 格式的流式响应
+ * 计算重试等待时间：优先使用 Retry-After，否则指数退避并加入随机抖动
  */
-async function handleClaudeStreamResponse(
-    body: ReadableStream<Uint8Array>,
-    options: ChatOptions
-): Promise<void> {
-    const reader = body.getReader();
-    const decoder = new TextDecoder();
-    let fullText = '';
-    let thinkingText = '';
-    let buffer = '';
-    let isThinkingPhase = false;
+function getRetryDelay(error: ApiRequestError, attempt: number, policy: Required<RetryPolicy>): number {
+    if (error.retryAfter !== undefined) {
+        return error.retryAfter;
+    }
+    const exponential = policy.baseDelay * Math.pow(2, attempt - 1);
+    const jitter = Math.random() * policy.baseDelay;
+    return Math.min(exponential + jitter, policy.maxDelay);
+}
+
+/**
+ * 等待指定时间，可被中断
+ */
+function waitForRetry(delay: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const abortError = () => {
+            const error = new Error('Request aborted');
+            error.name = 'AbortError';
+            return error;
+        };
+        if (signal?.aborted) {
+            reject(abortError());
+            return;
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, delay);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * 带自动重试和模型切换的聊天请求
+ * - 429、5xx 和网络错误按指数退避重试，遵循 Retry-After
+ * - 当前模型仍然失败时按顺序切换到备用模型
+ * - 已经返回工具调用的请求不会重试，避免重复执行工具
+ * - 中间失败不会触发 onError，只有最终失败时才调用
+ * - 配置了 apiKeySelector 时，401/403/429 停用当前 Key 并立即换用其他 Key
+ */
+export async function chatWithRetry(
+    provider: string,
+    options: ChatOptions,
+    customApiUrl?: string,
+    advancedConfig?: AdvancedConfig,
+    retryOptions: ChatRetryOptions = {}
+): Promise<ChatAttemptResult> {
+    const policy: Required<RetryPolicy> = {
+        maxRetries: retryOptions.maxRetries ?? DEFAULT_RETRY_POLICY.maxRetries,
+        baseDelay: retryOptions.baseDelay ?? DEFAULT_RETRY_POLICY.baseDelay,
+        maxDelay: retryOptions.maxDelay ?? DEFAULT_RETRY_POLICY.maxDelay
+    };
 
-    try {
-        while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
+    const targets: Array<ChatFallback & { isFallback: boolean }> = [
+        { provider, options: {}, customApiUrl, advancedConfig, isFallback: false },
+        ...(retryOptions.fallbacks || []).map(fallback => ({ ...fallback, isFallback: true }))
+    ];
 
-            buffer += decoder.decode(value, { stream: true });
-            const lines = buffer.split('\n');
-            buffer = lines.pop() || '';
+    let lastError: Error | null = null;
+    // 上一次失败后已换用其他 Key，下次请求不需要等待
+    let keySwitched = false;
+    const keySelector = retryOptions.apiKeySelector;
+
+    for (let targetIndex = 0; targetIndex < targets.length; targetIndex++) {
+        const target = targets[targetIndex];
+        const targetOptions: ChatOptions = { ...options, ...target.options };
+
+        for (let attempt = 0; attempt <= policy.maxRetries; attempt++) {
+            if (lastError) {
+                // 同一模型重试时等待退避时间，切换模型或 Key 时立即请求
+                const delay =
+                    attempt > 0 && !keySwitched ? getRetryDelay(lastError, attempt, policy) : 0;
+                retryOptions.onRetry?.({
+                    provider: target.provider,
+                    model: targetOptions.model,
+                    label: target.label,
+                    attempt,
+                    delay,
+                    error: lastError,
+                    isFallback: target.isFallback
+                });
+                if (delay > 0) {
+                    try {
+                        await waitForRetry(delay, options.signal);
+                    } catch (abortError) {
+                        options.onError?.(abortError as Error);
+                        throw abortError;
+                    }
+                }
+            }
 
-            for (const line of lines) {
-                const trimmed = line.trim();
-                if (!trimmed) continue;
+            // 中间失败的错误先暂存，最终失败时再通知调用方
+            let reportedError: Error | null = null;
+            let toolCallsDelivered = false;
+            const apiKey = keySelector?.select(target.provider) ?? targetOptions.apiKey;
+            keySwitched = false;
+            const attemptOptions: ChatOptions = {
+                ...targetOptions,
+                apiKey,
+                onToolCallComplete: targetOptions.onToolCallComplete
+                    ? (toolCalls: ToolCall[]) => {
+                          toolCallsDelivered = true;
+                          return targetOptions.onToolCallComplete!(toolCalls);
+                      }
+                    : undefined,
+                onError: (error: Error) => {
+                    reportedError = error;
+                }
+            };
 
-                // Claude SSE 格式: event: xxx 或 data: xxx
-                if (trimmed.startsWith('event:')) {
-                    // 事件类型，可以忽略或用于状态管理
-                    continue;
+            try {
+                await chat(target.provider, attemptOptions, target.customApiUrl, target.advancedConfig);
+                keySelector?.report(target.provider, apiKey);
+                return {
+                    provider: target.provider,
+                    model: targetOptions.model,
+                    label: target.label,
+                    isFallback: target.isFallback
+                };
+            } catch (error) {
+                const apiError = error as ApiRequestError;
+                const isAborted = apiError.name === 'AbortError' || options.signal?.aborted;
+                const isLastTarget = targetIndex === targets.length - 1;
+                keySwitched =
+                    !isAborted && !!keySelector?.report(target.provider, apiKey, apiError);
+                const retryable = keySwitched || isRetryableError(apiError);
+
+                // 用户中断或已执行工具调用时不再重试
+                if (isAborted || toolCallsDelivered || (isLastTarget && !retryable)) {
+                    if (reportedError) options.onError?.(reportedError);
+                    throw error;
                 }
 
-                if (trimmed.startsWith('data:')) {
-                    const payload = trimmed.slice(5).trimStart();
-                    if (!payload) continue;
+                lastError = apiError;
+                console.warn(
+                    `Chat request failed (${target.provider}/${targetOptions.model}, attempt ${attempt + 1}):`,
+                    apiError.message
+                );
+
+                // 不可重试的错误，或服务端要求的等待时间过长，直接切换到下一个模型
+                if (
+                    !retryable ||
+                    (!keySwitched &&
+                        apiError.retryAfter !== undefined &&
+                        apiError.retryAfter > policy.maxDelay)
+                ) {
+                    break;
+                }
 
-                    try {
-                        const json = JSON.parse(payload);
-
-                        // Claude 的流式响应格式
-                        if (json.type === 'content_block_delta') {
-                            const delta = json.delta;
-
-                            if (delta?.type === 'text_delta' && delta.text) {
-                                fullText += delta.text;
-                                options.onChunk?.(delta.text);
-                            }
-
-                            // 思考内容（如果支持）
-                            if (delta?.type === 'thinking_delta' && delta.thinking) {
-                                isThinkingPhase = true;
-                                thinkingText += delta.thinking;
-                                options.onThinkingChunk?.(delta.thinking);
-                            }
-                        } else if (json.type === 'content_block_start') {
-                            // 内容块开始
-                            if (json.content_block?.type === 'thinking') {
-                                isThinkingPhase = true;
-                            }
-                        } else if (json.type === 'content_block_stop') {
-                            // 内容块结束
-                            if (isThinkingPhase && options.onThinkingComplete) {
-                                options.onThinkingComplete(thinkingText);
-                                isThinkingPhase = false;
-                            }
-                        }
-                    } catch (e) {
-                        console.error('Failed to parse Claude SSE data:', e);
-                    }
+                if (attempt === policy.maxRetries && isLastTarget) {
+                    if (reportedError) options.onError?.(reportedError);
+                    throw error;
                 }
             }
         }
 
-        // 如果结束时还在思考阶段，调用思考完成回调
-        if (isThinkingPhase && options.onThinkingComplete) {
-            options.onThinkingComplete(thinkingText);
+        // 最后一个模型因为等待时间过长而放弃重试
+        if (targetIndex === targets.length - 1 && lastError) {
+            options.onError?.(lastError);
+            throw lastError;
         }
+    }
 
-        options.onComplete?.(fullText);
-    } catch (error) {
-        if ((error as Error).name === 'AbortError') {
-            console.log('Claude stream reading was aborted');
-            if (fullText) {
-                options.onComplete?.(fullText);
-            }
-            if (thinkingText && options.onThinkingComplete) {
-                options.onThinkingComplete(thinkingText);
-            }
-        } else {
-            console.error('Claude stream reading error:', error);
-            options.onError?.(error as Error);
+    throw lastError || new Error('No model available');
+}
+
+/**
+ * 计算token数量（使用离线 BPE 分词器，未指定模型时按 o200k_base 近似）
+ */
+export function estimateTokens(text: string, modelId?: string): number {
+    return countTokens(text, modelId);
+}
+
+/**
+ * 计算消息列表的总token数
+ */
+export function calculateTotalTokens(messages: Message[], modelId?: string): number {
+    return countMessagesTokens(messages, modelId);
+}
+
+// ==================== 向量化接口 ====================
+
+export interface EmbeddingOptions {
+    apiKey: string;
+    model: string;
+    input: string[]; // 需要向量化的文本列表
+    taskType?: 'document' | 'query'; // 文档或检索查询（Gemini 据此优化向量）
+    dimensions?: number; // 输出维度（仅部分模型支持）
+    apiVersion?: string; // Azure OpenAI 部署的 API 版本
+    signal?: AbortSignal;
+}
+
+export interface EmbeddingResult {
+    embeddings: number[][]; // 与 input 顺序一致
+    usage?: TokenUsage;
+}
+
+/**
+ * 读取失败响应中的错误信息
+ */
+async function readErrorDetail(response: Response): Promise<string> {
+    try {
+        const text = await response.text();
+        try {
+            const errorData = JSON.parse(text);
+            return errorData.error?.message || errorData.message || errorData.error || text;
+        } catch (e) {
+            return text;
         }
-        throw error;
-    } finally {
-        reader.releaseLock();
+    } catch (e) {
+        return '';
     }
 }
 
 /**
- * 发送聊天请求
+ * 向量化接口
+ * - OpenAI 兼容平台：/v1/embeddings（与对话接口同级，如 /api/v3/embeddings）
+ * - Gemini：/v1beta/models/{model}:batchEmbedContents
+ * - 本地模型服务：优先使用 Ollama 原生接口 /api/embed，不可用时使用 OpenAI 兼容接口
  */
-export async function chat(
+export async function fetchEmbeddings(
     provider: string,
-    options: ChatOptions,
+    options: EmbeddingOptions,
     customApiUrl?: string,
-    advancedConfig?: { customModelsUrl?: string; customChatUrl?: string }
-): Promise<void> {
-    const isBuiltIn = ['gemini', 'deepseek', 'openai', 'moonshot', 'volcano', 'Achuan'].includes(provider);
-    const config = isBuiltIn ? PROVIDER_CONFIGS[provider as AIProvider] : PROVIDER_CONFIGS.custom;
+    advancedConfig?: AdvancedConfig
+): Promise<EmbeddingResult> {
+    const { config, isBuiltIn, apiFormat } = resolveProviderConfig(provider, advancedConfig);
 
-    let url: string;
-    let baseUrlForGemini: string; // Gemini format needs a base url
-    let baseUrlForClaude: string; // Claude format needs a base url
-
-    // 优先使用高级自定义的对话 URL
-    if (advancedConfig?.customChatUrl) {
-        url = advancedConfig.customChatUrl;
-        baseUrlForGemini = advancedConfig.customChatUrl.replace(/\/v1.*$/, '');
-        baseUrlForClaude = advancedConfig.customChatUrl.replace(/\/v1.*$/, '');
-    } else if (customApiUrl) {
-        const { baseUrl, endpoint } = getBaseUrlAndEndpoint(customApiUrl, config.chatEndpoint);
-        url = `${baseUrl}${endpoint}`;
-        baseUrlForGemini = baseUrl;
-        baseUrlForClaude = baseUrl;
-    } else {
-        if (!isBuiltIn && provider !== 'custom') {
-            throw new Error('Custom provider requires API URL');
-        }
-        url = `${config.baseUrl}${config.chatEndpoint}`;
-        baseUrlForGemini = config.baseUrl;
-        baseUrlForClaude = config.baseUrl;
+    if (apiFormat === 'anthropic') {
+        throw new Error('Anthropic API does not provide an embeddings endpoint');
+    }
+    if (options.input.length === 0) {
+        return { embeddings: [] };
     }
 
-    // 检测是否是 Claude 模型，使用原生 API
-    if (isClaudeModel(options.model)) {
-        await chatClaudeFormat(baseUrlForClaude, options.apiKey, options);
-    } else if (provider === 'gemini') {
-        await chatGeminiFormat(baseUrlForGemini, options.apiKey, options.model, options);
-    } else {
-        await chatOpenAIFormat(url, options.apiKey, options);
+    const baseUrl = customApiUrl ? getBaseUrlAndEndpoint(customApiUrl, '').baseUrl : config.baseUrl;
+    if (!baseUrl && provider !== 'azure') {
+        throw new Error(isBuiltIn ? 'API URL is required' : 'Custom provider requires API URL');
     }
-}
 
-/**
- * 估算token数量（简单估算，1个中文字符约等于1.5个token，1个英文单词约1个token）
- */
-export function estimateTokens(text: string): number {
-    const chineseChars = (text.match(/[\u4e00-\u9fa5]/g) || []).length;
-    const englishWords = (text.match(/[a-zA-Z]+/g) || []).length;
-    const otherChars = text.length - chineseChars - text.match(/[a-zA-Z\s]/g)?.length || 0;
+    const transport = getProviderFetch(advancedConfig);
+    const post = async (url: string, headers: Record<string, string>, body: any): Promise<Response> => {
+        const response = await transport(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body: JSON.stringify(body),
+            signal: options.signal
+        });
+        if (!response.ok) {
+            const detail = await readErrorDetail(response);
+            throw createApiError(
+                response,
+                `Embedding request failed: ${response.status} ${response.statusText}${detail ? `\n\n${detail}` : ''}`
+            );
+        }
+        return response;
+    };
 
-    return Math.ceil(chineseChars * 1.5 + englishWords + otherChars * 0.5);
-}
+    // Gemini
+    if (apiFormat === 'gemini') {
+        const modelName = options.model.startsWith('models/') ? options.model : `models/${options.model}`;
+        const response = await post(
+            `${baseUrl}/v1beta/${modelName}:batchEmbedContents`,
+            { [config.apiKeyHeader]: options.apiKey },
+            {
+                requests: options.input.map(text => ({
+                    model: modelName,
+                    content: { parts: [{ text }] },
+                    taskType: options.taskType === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT',
+                    ...(options.dimensions ? { outputDimensionality: options.dimensions } : {})
+                }))
+            }
+        );
+        const data = await response.json();
+        return {
+            embeddings: (data.embeddings || []).map((item: any) => item.values || [])
+        };
+    }
 
-/**
- * 计算消息列表的总token数
- */
-export function calculateTotalTokens(messages: Message[]): number {
-    return messages.reduce((total, msg) => {
-        if (typeof msg.content === 'string') {
-            return total + estimateTokens(msg.content);
-        } else {
-            // 处理多模态内容
-            return total + msg.content.reduce((sum, part) => {
-                if (part.type === 'text' && part.text) {
-                    return sum + estimateTokens(part.text);
-                } else if (part.type === 'image_url') {
-                    // 图片大约消耗85个token (根据OpenAI文档的低分辨率估算)
-                    return sum + 85;
-                }
-                return sum;
-            }, 0);
+    const headers = buildApiKeyHeader(config.apiKeyHeader, options.apiKey);
+
+    // Ollama 原生接口
+    if (provider === 'local') {
+        const root = getLocalServerRoot(customApiUrl || config.baseUrl);
+        try {
+            const response = await post(`${root}/api/embed`, headers, {
+                model: options.model,
+                input: options.input,
+                ...(options.dimensions ? { dimensions: options.dimensions } : {})
+            });
+            const data = await response.json();
+            if (Array.isArray(data.embeddings)) {
+                return {
+                    embeddings: data.embeddings,
+                    usage: data.prompt_eval_count !== undefined
+                        ? { inputTokens: data.prompt_eval_count, outputTokens: 0 }
+                        : undefined
+                };
+            }
+        } catch (error) {
+            // LM Studio、llama.cpp 等没有 /api/embed，使用 OpenAI 兼容接口
+            if ((error as ApiRequestError).status !== 404) {
+                throw error;
+            }
+        }
+    }
+
+    // OpenAI 兼容接口
+    let url: string;
+    if (provider === 'azure') {
+        if (!customApiUrl) {
+            throw new Error('Azure OpenAI requires endpoint URL');
         }
-    }, 0);
+        url = buildAzureUrl(customApiUrl, options.model, 'embeddings', options.apiVersion);
+    } else if (provider === 'local') {
+        url = `${getLocalServerRoot(customApiUrl || config.baseUrl)}/v1/embeddings`;
+    } else {
+        const defaultEndpoint = config.chatEndpoint.replace(/(chat\/completions|responses)$/, 'embeddings');
+        const endpoint = customApiUrl
+            ? getBaseUrlAndEndpoint(customApiUrl, defaultEndpoint).endpoint
+            : defaultEndpoint;
+        // 以 '#' 结尾的地址为完整的对话接口地址，替换为同级的向量化接口
+        url = endpoint
+            ? `${baseUrl}${endpoint}`
+            : baseUrl.replace(/(chat\/completions|responses)$/, 'embeddings');
+    }
+
+    const response = await post(url, headers, {
+        model: options.model,
+        input: options.input,
+        ...(options.dimensions ? { dimensions: options.dimensions } : {})
+    });
+    const data = await response.json();
+    const items: any[] = Array.isArray(data.data) ? data.data : [];
+    return {
+        // 按 index 排序，保证与 input 顺序一致
+        embeddings: items
+            .slice()
+            .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+            .map(item => item.embedding || []),
+        usage: parseOpenAIUsage(data.usage)
+    };
 }
 
 // ==================== 图片生成接口 ====================
@@ -1467,6 +3649,7 @@ export interface ImageGenerationOptions {
     quality?: 'standard' | 'hd';
     style?: 'vivid' | 'natural';
     n?: number; // 生成图片数量，默认1
+    apiVersion?: string; // Azure OpenAI 部署的 API 版本
     signal?: AbortSignal;
 }
 
@@ -1481,33 +3664,66 @@ export interface ImageGenerationResult {
     total: number;
 }
 
+/**
+ * 解析图片生成/编辑接口的响应
+ * OpenAI 格式: { data: [{ url: string, b64_json: string, revised_prompt: string }] }
+ * 某些平台可能直接返回数组或单个图片对象
+ */
+function parseImageResponse(data: any): ImageGenerationResult {
+    const toImage = (item: any): GeneratedImage => ({
+        url: item.url,
+        b64_json: item.b64_json,
+        revised_prompt: item.revised_prompt
+    });
+
+    let images: GeneratedImage[] = [];
+    if (data.data && Array.isArray(data.data)) {
+        images = data.data.map(toImage);
+    } else if (Array.isArray(data)) {
+        images = data.map(toImage);
+    } else if (data.url || data.b64_json) {
+        images = [toImage(data)];
+    }
+
+    return {
+        images,
+        total: images.length
+    };
+}
+
 /**
  * 图片生成 API 接口
- * 使用 /v1/image/generations 接口
+ * 使用 /v1/image/generations 接口（Azure 使用部署的 images/generations 接口）
  */
 export async function generateImage(
     provider: string,
     options: ImageGenerationOptions,
     customApiUrl?: string,
-    advancedConfig?: { customModelsUrl?: string; customChatUrl?: string }
+    advancedConfig?: AdvancedConfig
 ): Promise<ImageGenerationResult> {
-    const isBuiltIn = ['gemini', 'deepseek', 'openai', 'moonshot', 'volcano', 'Achuan'].includes(provider);
-    const config = isBuiltIn ? PROVIDER_CONFIGS[provider as AIProvider] : PROVIDER_CONFIGS.custom;
+    const { config, isBuiltIn } = resolveProviderConfig(provider, advancedConfig);
 
     // 构建图片生成 API 的 URL
-    let baseUrl: string;
-    if (customApiUrl) {
-        const { baseUrl: url } = getBaseUrlAndEndpoint(customApiUrl, '/v1/image/generations');
-        baseUrl = url;
+    let url: string;
+    if (provider === 'azure') {
+        if (!customApiUrl) {
+            throw new Error('Azure OpenAI requires endpoint URL');
+        }
+        url = buildAzureUrl(customApiUrl, options.model, 'images/generations', options.apiVersion);
     } else {
-        if (!isBuiltIn) {
-            throw new Error('Custom provider requires API URL');
+        let baseUrl: string;
+        if (customApiUrl) {
+            const { baseUrl: parsedBaseUrl } = getBaseUrlAndEndpoint(customApiUrl, '/v1/image/generations');
+            baseUrl = parsedBaseUrl;
+        } else {
+            if (!isBuiltIn) {
+                throw new Error('Custom provider requires API URL');
+            }
+            baseUrl = config.baseUrl;
         }
-        baseUrl = config.baseUrl;
+        url = `${baseUrl}/v1/image/generations`;
     }
 
-    const url = `${baseUrl}/v1/image/generations`;
-
     const requestBody: any = {
         model: options.model,
         prompt: options.prompt,
@@ -1529,11 +3745,11 @@ export async function generateImage(
 
     const headers: Record<string, string> = {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${options.apiKey}`
+        ...buildApiKeyHeader(config.apiKeyHeader, options.apiKey)
     };
 
     try {
-        const response = await fetch(url, {
+        const response = await getProviderFetch(advancedConfig)(url, {
             method: 'POST',
             headers,
             body: JSON.stringify(requestBody),
@@ -1559,39 +3775,7 @@ export async function generateImage(
             throw new Error(errorMessage);
         }
 
-        const data = await response.json();
-
-        // 处理响应数据
-        // OpenAI 格式: { data: [{ url: string, b64_json: string, revised_prompt: string }] }
-        // 某些平台可能返回不同格式
-        let images: GeneratedImage[] = [];
-
-        if (data.data && Array.isArray(data.data)) {
-            images = data.data.map((item: any) => ({
-                url: item.url,
-                b64_json: item.b64_json,
-                revised_prompt: item.revised_prompt
-            }));
-        } else if (Array.isArray(data)) {
-            // 某些平台可能直接返回数组
-            images = data.map((item: any) => ({
-                url: item.url,
-                b64_json: item.b64_json,
-                revised_prompt: item.revised_prompt
-            }));
-        } else if (data.url || data.b64_json) {
-            // 单个图片对象
-            images = [{
-                url: data.url,
-                b64_json: data.b64_json,
-                revised_prompt: data.revised_prompt
-            }];
-        }
-
-        return {
-            images,
-            total: images.length
-        };
+        return parseImageResponse(await response.json());
     } catch (error) {
         if ((error as Error).name === 'AbortError') {
             console.log('Image generation was aborted by user');
@@ -1603,6 +3787,264 @@ export async function generateImage(
     }
 }
 
+export interface ImageEditOptions {
+    apiKey: string;
+    model: string;
+    prompt: string;
+    image: Blob; // 源图片（PNG）
+    mask?: Blob; // 蒙版（与源图片尺寸相同的 PNG），透明区域为需要重绘的部分，为空时编辑整张图片
+    size?: string; // 例如: "1024x1024"，为空时使用平台默认值
+    quality?: string; // 例如: "low"、"medium"、"high"，为空时使用平台默认值
+    n?: number; // 生成图片数量，默认1
+    apiVersion?: string; // Azure OpenAI 部署的 API 版本
+    signal?: AbortSignal;
+}
+
+/**
+ * 图片编辑 API 接口（图生图 / 局部重绘）
+ * 使用 /v1/images/edits 接口（Azure 使用部署的 images/edits 接口），请求体为 multipart/form-data
+ */
+export async function editImage(
+    provider: string,
+    options: ImageEditOptions,
+    customApiUrl?: string,
+    advancedConfig?: AdvancedConfig
+): Promise<ImageGenerationResult> {
+    const { config, isBuiltIn } = resolveProviderConfig(provider, advancedConfig);
+
+    let url: string;
+    if (provider === 'azure') {
+        if (!customApiUrl) {
+            throw new Error('Azure OpenAI requires endpoint URL');
+        }
+        url = buildAzureUrl(customApiUrl, options.model, 'images/edits', options.apiVersion);
+    } else {
+        let baseUrl: string;
+        if (customApiUrl) {
+            baseUrl = getBaseUrlAndEndpoint(customApiUrl, '/v1/images/edits').baseUrl;
+        } else {
+            if (!isBuiltIn) {
+                throw new Error('Custom provider requires API URL');
+            }
+            baseUrl = config.baseUrl;
+        }
+        url = `${baseUrl}/v1/images/edits`;
+    }
+
+    const form = new FormData();
+    form.append('model', options.model);
+    form.append('prompt', options.prompt);
+    form.append('image', options.image, 'image.png');
+    if (options.mask) {
+        form.append('mask', options.mask, 'mask.png');
+    }
+    form.append('n', String(options.n || 1));
+    if (options.size) {
+        form.append('size', options.size);
+    }
+    if (options.quality) {
+        form.append('quality', options.quality);
+    }
+
+    try {
+        // 不设置 Content-Type，由浏览器生成带 boundary 的 multipart 请求头
+        const response = await getProviderFetch(advancedConfig)(url, {
+            method: 'POST',
+            headers: buildApiKeyHeader(config.apiKeyHeader, options.apiKey),
+            body: form,
+            signal: options.signal
+        });
+
+        if (!response.ok) {
+            const detail = await readErrorDetail(response);
+            throw createApiError(
+                response,
+                `Image edit failed: ${response.status} ${response.statusText}${detail ? `\n\n${detail}` : ''}`
+            );
+        }
+
+        return parseImageResponse(await response.json());
+    } catch (error) {
+        if ((error as Error).name === 'AbortError') {
+            throw new Error('Image edit aborted');
+        }
+        console.error('Image edit error:', error);
+        throw error;
+    }
+}
+
+export interface TranscriptionOptions {
+    apiKey: string;
+    model: string; // 例如: "whisper-1"、"gpt-4o-mini-transcribe"
+    audio: Blob;
+    fileName?: string; // 带扩展名的文件名，平台根据扩展名识别音频格式，默认 audio.webm
+    language?: string; // ISO-639-1 语言代码（如 zh、en），为空时自动识别
+    prompt?: string; // 提示文本，可用于提供专有名词的拼写
+    apiVersion?: string; // Azure OpenAI 部署的 API 版本
+    signal?: AbortSignal;
+}
+
+/**
+ * 语音转文字 API 接口
+ * 使用 OpenAI 兼容的 /v1/audio/transcriptions 接口（Azure 使用部署的 audio/transcriptions 接口），
+ * 本地 whisper 服务（如 faster-whisper-server、LocalAI）填写服务地址即可
+ */
+export async function transcribeAudio(
+    provider: string,
+    options: TranscriptionOptions,
+    customApiUrl?: string,
+    advancedConfig?: AdvancedConfig
+): Promise<string> {
+    const { config, isBuiltIn, apiFormat } = resolveProviderConfig(provider, advancedConfig);
+
+    if (apiFormat === 'anthropic' || apiFormat === 'gemini') {
+        throw new Error('This provider does not provide an audio transcription endpoint');
+    }
+
+    let url: string;
+    if (provider === 'azure') {
+        if (!customApiUrl) {
+            throw new Error('Azure OpenAI requires endpoint URL');
+        }
+        url = buildAzureUrl(customApiUrl, options.model, 'audio/transcriptions', options.apiVersion);
+    } else if (customApiUrl) {
+        const { baseUrl, endpoint } = getBaseUrlAndEndpoint(customApiUrl, '/v1/audio/transcriptions');
+        url = `${baseUrl}${endpoint}`;
+    } else {
+        if (!isBuiltIn) {
+            throw new Error('Custom provider requires API URL');
+        }
+        url = `${config.baseUrl}/v1/audio/transcriptions`;
+    }
+
+    const form = new FormData();
+    form.append('file', options.audio, options.fileName || 'audio.webm');
+    form.append('model', options.model);
+    form.append('response_format', 'json');
+    if (options.language) {
+        form.append('language', options.language);
+    }
+    if (options.prompt) {
+        form.append('prompt', options.prompt);
+    }
+
+    try {
+        const response = await getProviderFetch(advancedConfig)(url, {
+            method: 'POST',
+            headers: buildApiKeyHeader(config.apiKeyHeader, options.apiKey),
+            body: form,
+            signal: options.signal
+        });
+
+        if (!response.ok) {
+            const detail = await readErrorDetail(response);
+            throw createApiError(
+                response,
+                `Transcription failed: ${response.status} ${response.statusText}${detail ? `\n\n${detail}` : ''}`
+            );
+        }
+
+        // 部分本地服务忽略 response_format，直接返回纯文本
+        const text = await response.text();
+        try {
+            const data = JSON.parse(text);
+            return (typeof data === 'string' ? data : data.text || '').trim();
+        } catch (e) {
+            return text.trim();
+        }
+    } catch (error) {
+        if ((error as Error).name === 'AbortError') {
+            throw new Error('Transcription aborted');
+        }
+        console.error('Transcription error:', error);
+        throw error;
+    }
+}
+
+export interface TextToSpeechOptions {
+    apiKey: string;
+    model: string; // 例如: "tts-1"、"gpt-4o-mini-tts"
+    input: string;
+    voice: string; // 例如: "alloy"、"nova"
+    format?: string; // 音频格式（mp3、opus、aac、flac、wav），默认 mp3
+    speed?: number; // 语速 0.25 - 4.0，默认 1
+    apiVersion?: string; // Azure OpenAI 部署的 API 版本
+    signal?: AbortSignal;
+}
+
+/**
+ * 文字转语音 API 接口
+ * 使用 OpenAI 兼容的 /v1/audio/speech 接口（Azure 使用部署的 audio/speech 接口），返回音频数据
+ */
+export async function synthesizeSpeech(
+    provider: string,
+    options: TextToSpeechOptions,
+    customApiUrl?: string,
+    advancedConfig?: AdvancedConfig
+): Promise<Blob> {
+    const { config, isBuiltIn, apiFormat } = resolveProviderConfig(provider, advancedConfig);
+
+    if (apiFormat === 'anthropic' || apiFormat === 'gemini') {
+        throw new Error('This provider does not provide a text-to-speech endpoint');
+    }
+
+    let url: string;
+    if (provider === 'azure') {
+        if (!customApiUrl) {
+            throw new Error('Azure OpenAI requires endpoint URL');
+        }
+        url = buildAzureUrl(customApiUrl, options.model, 'audio/speech', options.apiVersion);
+    } else if (customApiUrl) {
+        const { baseUrl, endpoint } = getBaseUrlAndEndpoint(customApiUrl, '/v1/audio/speech');
+        url = `${baseUrl}${endpoint}`;
+    } else {
+        if (!isBuiltIn) {
+            throw new Error('Custom provider requires API URL');
+        }
+        url = `${config.baseUrl}/v1/audio/speech`;
+    }
+
+    const format = options.format || 'mp3';
+
+    try {
+        const response = await getProviderFetch(advancedConfig)(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...buildApiKeyHeader(config.apiKeyHeader, options.apiKey)
+            },
+            body: JSON.stringify({
+                model: options.model,
+                input: options.input,
+                voice: options.voice,
+                response_format: format,
+                ...(options.speed && options.speed !== 1 ? { speed: options.speed } : {})
+            }),
+            signal: options.signal
+        });
+
+        if (!response.ok) {
+            const detail = await readErrorDetail(response);
+            throw createApiError(
+                response,
+                `Speech synthesis failed: ${response.status} ${response.statusText}${detail ? `\n\n${detail}` : ''}`
+            );
+        }
+
+        const blob = await response.blob();
+        // 部分服务不返回 Content-Type，按请求的格式补全，便于播放和保存
+        return blob.type.startsWith('audio/')
+            ? blob
+            : new Blob([blob], { type: format === 'mp3' ? 'audio/mpeg' : `audio/${format}` });
+    } catch (error) {
+        if ((error as Error).name === 'AbortError') {
+            throw new Error('Speech synthesis aborted');
+        }
+        console.error('Speech synthesis error:', error);
+        throw error;
+    }
+}
+
 /**
  * 检查模型是否支持图片生成
  */
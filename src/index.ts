@@ -26,14 +26,23 @@ import { getDefaultSettings } from "./defaultSettings";
 import { setPluginInstance, t, getCurrentLanguage } from "./utils/i18n";
 import AISidebar from "./ai-sidebar.svelte";
 import ChatDialog from "./components/ChatDialog.svelte";
-import { updateSettings, getSettings } from "./stores/settings";
-import { getModelCapabilities } from "./utils/modelCapabilities";
+import PassphraseDialog from "./components/PassphraseDialog.svelte";
+import { updateSettings, getSettings, settingsStore } from "./stores/settings";
+import { setChatInspector } from "./ai-chat";
+import { createChatInspector, INSPECTOR_LOG_FILE } from "./utils/requestInspector";
+import { isSemanticIndexConfigured, removeSemanticIndex, stopSemanticIndex, updateSemanticIndex } from "./utils/semanticIndex";
+import { getModelCapabilities } from "./utils/modelRegistry";
+import { isKeyVaultLocked, isKeyVaultUnlocked, openSettings, sealSettings, setKeyVaultUnlockHandler, setPassphrasePrompt } from "./utils/keyVault";
 import { matchHotKey, getCustomHotKey } from "./utils/hotkey";
 
 export const SETTINGS_FILE = "settings.json";
 const WEBVIEW_HISTORY_FILE = "webview-history.json";
 const WEBAPP_ICON_DIR = "/data/storage/petal/siyuan-plugin-copilot/webappIcon";
 const MAX_HISTORY_COUNT = 200;
+// 笔记语义索引的后台更新间隔
+const SEMANTIC_INDEX_INTERVAL = 10 * 60 * 1000;
+// 启动后延迟开始第一次索引更新，避免影响启动速度
+const SEMANTIC_INDEX_STARTUP_DELAY = 30 * 1000;
 
 const AI_SIDEBAR_TYPE = "ai-chat-sidebar";
 export const AI_TAB_TYPE = "ai-chat-tab";
@@ -54,6 +63,10 @@ export default class PluginSample extends Plugin {
     private webApps: Map<string, any> = new Map(); // 存储待打开的小程序数据
     private webViewHistory: WebViewHistory[] = []; // WebView 历史记录
     private domainIconMap: Map<string, string> = new Map(); // 缓存域名与图标文件名的映射
+    private unsubscribeInspector: (() => void) | null = null; // 请求记录开关的订阅
+    private unsubscribeSemanticIndex: (() => void) | null = null; // 笔记索引设置的订阅
+    private semanticIndexTimers: number[] = []; // 笔记索引的后台更新定时器
+    private semanticIndexSettings: any = null; // 最新的设置，供后台索引使用
 
     /**
      * 加载 WebView 历史记录
@@ -411,13 +424,32 @@ export default class PluginSample extends Plugin {
         // 设置i18n插件实例
         setPluginInstance(this);
 
-
+        // API Key 加密保存，第一次保存密钥或发送请求时弹出密码对话框，解锁后重新加载设置
+        setPassphrasePrompt((mode, error) => this.promptPassphrase(mode, error));
+        setKeyVaultUnlockHandler(() => this.loadSettings());
 
         // 加载历史记录
         this.webViewHistory = await this.loadWebViewHistory();
 
         // 加载设置
         await this.loadSettings();
+
+        // 开启请求记录时，记录所有发送给 AI 平台的请求
+        const chatInspector = createChatInspector(this);
+        this.unsubscribeInspector = settingsStore.subscribe(settings => {
+            setChatInspector(settings?.enableRequestInspector ? chatInspector : null);
+        });
+
+        // 开启笔记索引时，在后台定期增量更新
+        let semanticIndexKey = '';
+        this.unsubscribeSemanticIndex = settingsStore.subscribe(settings => {
+            this.semanticIndexSettings = settings;
+            const enabled = !!settings?.enableSemanticIndex && isSemanticIndexConfigured(settings);
+            const key = enabled ? `${settings.embeddingProvider}::${settings.embeddingModel}` : '';
+            if (key === semanticIndexKey) return;
+            semanticIndexKey = key;
+            this.scheduleSemanticIndex(enabled);
+        });
         this.addIcons(`
     <symbol id="iconCopilot" viewBox="0 0 1024 1024">
     <path d="M369.579 617.984a42.71 42.71 0 1 1 85.461 0v85.205a42.71 42.71 0 1 1-85.461 0v-85.205z m284.8 0a42.71 42.71 0 1 0-85.462 0v85.205a42.71 42.71 0 1 0 85.462 0v-85.205zM511.957 171.861c-36.053-52.01-110.848-55.893-168.32-50.688-65.834 6.571-121.301 29.227-152.49 62.464-54.102 59.136-56.576 183.083-30.507 251.307-2.603 11.69-5.12 23.51-6.912 36.053C105.515 483.67 56.32 551.98 56.32 600.832v92.245c0 25.6 11.947 48.982 33.067 64.939 120.49 89.515 270.677 158.89 422.613 158.89 151.893 0 302.08-69.375 422.57-158.89a80.64 80.64 0 0 0 33.067-64.896v-92.288c0-48.853-49.194-117.163-97.408-129.835-1.792-12.544-4.266-24.32-6.912-36.01 26.07-68.267 23.552-192.214-30.506-251.307-31.19-33.28-86.614-55.893-152.491-62.507-57.472-5.162-132.267-1.28-168.363 50.688z m284.8 574.294c-65.493 36.437-174.293 85.333-284.8 85.333S292.693 782.592 227.2 746.155V498.73c105.685 40.96 227.285 19.84 284.715-75.008H512c57.43 94.848 179.03 115.925 284.715 75.008v247.381z m-341.76-454.827c0 67.67-20.48 141.312-113.92 141.312s-111.189-22.357-111.189-85.205c0-99.67 15.19-142.336 141.483-142.336 72.96 0 83.626 23.466 83.626 86.272z m113.92 0c0-62.805 10.667-86.187 83.67-86.187 126.293 0 141.482 42.667 141.482 142.294 0 62.848-17.792 85.205-111.232 85.205s-113.92-73.643-113.92-141.27z" p-id="5384"></path>
@@ -1827,6 +1859,37 @@ export default class PluginSample extends Plugin {
     onunload() {
         //当插件被禁用的时候，会自动调用这个函数
         console.log("Copilot onunload");
+        this.unsubscribeInspector?.();
+        setChatInspector(null);
+        setPassphrasePrompt(null);
+        setKeyVaultUnlockHandler(null);
+        this.unsubscribeSemanticIndex?.();
+        this.scheduleSemanticIndex(false);
+    }
+
+    /**
+     * 设置笔记索引的后台更新：启动后延迟一次，之后定期增量更新
+     */
+    private scheduleSemanticIndex(enabled: boolean) {
+        this.semanticIndexTimers.forEach(timer => {
+            window.clearTimeout(timer);
+            window.clearInterval(timer);
+        });
+        this.semanticIndexTimers = [];
+        stopSemanticIndex();
+        if (!enabled) return;
+
+        const update = () => {
+            // API Key 未解锁时跳过，后台更新不弹出密码对话框
+            if (isKeyVaultLocked()) return;
+            updateSemanticIndex(this, this.semanticIndexSettings).catch(error => {
+                console.warn('Semantic index update failed:', error);
+            });
+        };
+        this.semanticIndexTimers.push(
+            window.setTimeout(update, SEMANTIC_INDEX_STARTUP_DELAY),
+            window.setInterval(update, SEMANTIC_INDEX_INTERVAL)
+        );
     }
 
     async uninstall() {
@@ -1837,6 +1900,9 @@ export default class PluginSample extends Plugin {
         await this.removeData(WEBVIEW_HISTORY_FILE);
         await this.removeData("chat-sessions.json");
         await this.removeData("prompts.json");
+        await this.removeData("usage-log.json");
+        await this.removeData(INSPECTOR_LOG_FILE);
+        await removeSemanticIndex(this);
     }
 
     /**
@@ -1866,6 +1932,10 @@ export default class PluginSample extends Plugin {
      */
     async loadSettings() {
         const settings = (await this.loadData(SETTINGS_FILE)) || {};
+        // 解密 API Key；迁移：settings.json 中仍有明文 API Key 时，在已设置密码后加密重新保存
+        if (await openSettings(settings)) {
+            await this.saveData(SETTINGS_FILE, settings);
+        }
 
         // 迁移：如果存在旧的 aiProviders.v3 配置，迁移为自定义平台（customProviders）
         try {
@@ -1918,7 +1988,7 @@ export default class PluginSample extends Plugin {
             if (settings.dataTransfer.autoSetModelCapabilities) {
             } else if (settings.aiProviders) {
                 // 内置平台列表
-                const builtInProviders = ['Achuan', 'gemini', 'deepseek', 'openai', 'moonshot', 'volcano'];
+                const builtInProviders = ['Achuan', 'gemini', 'anthropic', 'deepseek', 'openai', 'moonshot', 'volcano', 'azure', 'local'];
 
                 // 处理内置平台
                 for (const providerId of builtInProviders) {
@@ -1981,6 +2051,49 @@ export default class PluginSample extends Plugin {
         return mergedSettings;
     }
 
+    /**
+     * 保存插件数据，设置了加密密码时 settings.json 中的 API Key 加密后保存
+     */
+    async saveData(storageName: string, content: any) {
+        if (storageName !== SETTINGS_FILE) {
+            return super.saveData(storageName, content);
+        }
+        const wasUnlocked = isKeyVaultUnlocked();
+        await super.saveData(storageName, await sealSettings(content));
+        // 保存时才解锁，重新加载设置以填入其他已保存的密钥
+        if (!wasUnlocked && isKeyVaultUnlocked()) {
+            await this.loadSettings();
+        }
+    }
+
+    /**
+     * 弹出输入 API Key 加密密码的对话框，取消时返回 null
+     */
+    private promptPassphrase(mode: 'create' | 'unlock', error?: string): Promise<string | null> {
+        return new Promise(resolve => {
+            let passphrase: string | null = null;
+            const dialog = new Dialog({
+                title: t("keyVault.title"),
+                content: `<div id="PassphraseDialog"></div>`,
+                width: "420px",
+                destroyCallback: () => {
+                    app.$destroy();
+                    resolve(passphrase);
+                }
+            });
+
+            const app = new PassphraseDialog({
+                target: dialog.element.querySelector("#PassphraseDialog"),
+                props: { mode, error: error || '' }
+            });
+            app.$on('confirm', (event: CustomEvent<string>) => {
+                passphrase = event.detail;
+                dialog.destroy();
+            });
+            app.$on('cancel', () => dialog.destroy());
+        });
+    }
+
     /**
      * 保存设置
      */
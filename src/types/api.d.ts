@@ -52,6 +52,7 @@ interface IResBootProgress {
 
 interface IResForwardProxy {
     body: string;
+    bodyEncoding?: string;
     contentType: string;
     elapsed: number;
     headers: { [key: string]: string };
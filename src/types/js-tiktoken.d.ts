@@ -0,0 +1,13 @@
+/**
+ * js-tiktoken 的词表通过 package.json exports 导出，
+ * moduleResolution 为 Node 时无法解析，这里补充声明
+ */
+
+declare module 'js-tiktoken/ranks/*' {
+    const ranks: {
+        pat_str: string;
+        special_tokens: Record<string, number>;
+        bpe_ranks: string;
+    };
+    export default ranks;
+}
@@ -0,0 +1,194 @@
+/**
+ * 多 API Key 轮换
+ * 平台可以配置多个 Key，请求时按轮询或“最久未被限流”选择；返回 401/403/429 的 Key 会被暂时停用，
+ * 健康状态只保存在内存中，重启后重置
+ */
+
+import { writable } from 'svelte/store';
+import type { ApiKeySelector, ApiRequestError } from '../ai-chat';
+
+// 轮询：依次使用每个 Key；最久未被限流：优先使用最久没有返回 429 的 Key
+export type ApiKeyStrategy = 'round-robin' | 'least-limited';
+
+export interface ApiKeyPoolConfig {
+    apiKey?: string;
+    apiKeys?: string[];
+    apiKeyStrategy?: ApiKeyStrategy;
+}
+
+export interface ApiKeyHealth {
+    lastUsed?: number; // 上次选用的时间
+    lastSuccess?: number; // 上次请求成功的时间
+    lastRateLimited?: number; // 上次返回 429 的时间
+    disabledUntil?: number; // 停用截止时间
+    lastStatus?: number; // 上次失败的 HTTP 状态码
+    lastError?: string;
+    failures: number; // 连续失败次数
+}
+
+export type ApiKeyStatus = 'unused' | 'healthy' | 'disabled';
+
+// 返回 429 且没有 Retry-After 时的停用时间
+const RATE_LIMIT_COOLDOWN = 60 * 1000;
+// 返回 401/403 时的停用时间（Key 失效或余额不足，通常需要用户处理）
+const AUTH_COOLDOWN = 10 * 60 * 1000;
+
+// 平台ID -> Key -> 健康状态
+export const apiKeyHealth = writable<Record<string, Record<string, ApiKeyHealth>>>({});
+
+let healthState: Record<string, Record<string, ApiKeyHealth>> = {};
+// 各平台轮询的位置
+const roundRobinIndex = new Map<string, number>();
+
+function updateHealth(provider: string, apiKey: string, patch: Partial<ApiKeyHealth>) {
+    const providerHealth = healthState[provider] || {};
+    const current = providerHealth[apiKey] || { failures: 0 };
+    healthState = {
+        ...healthState,
+        [provider]: { ...providerHealth, [apiKey]: { ...current, ...patch } }
+    };
+    apiKeyHealth.set(healthState);
+}
+
+function getHealth(provider: string, apiKey: string): ApiKeyHealth | undefined {
+    return healthState[provider]?.[apiKey];
+}
+
+function isAvailable(provider: string, apiKey: string, now = Date.now()): boolean {
+    const health = getHealth(provider, apiKey);
+    return !health?.disabledUntil || health.disabledUntil <= now;
+}
+
+/**
+ * 平台配置的全部 Key（主 Key 在前，去重并忽略空值）
+ */
+export function getProviderApiKeys(config?: ApiKeyPoolConfig | null): string[] {
+    if (!config) return [];
+    const keys = [config.apiKey, ...(config.apiKeys || [])]
+        .map(key => (key || '').trim())
+        .filter(Boolean);
+    return [...new Set(keys)];
+}
+
+/**
+ * Key 的当前状态
+ */
+export function getApiKeyStatus(health?: ApiKeyHealth, now = Date.now()): ApiKeyStatus {
+    if (!health || (!health.lastSuccess && !health.failures)) return 'unused';
+    if (health.disabledUntil && health.disabledUntil > now) return 'disabled';
+    return 'healthy';
+}
+
+/**
+ * 按策略选择 Key，所有 Key 都被停用时选择最早恢复的
+ */
+export function selectApiKey(
+    provider: string,
+    keys: string[],
+    strategy: ApiKeyStrategy = 'round-robin'
+): string | undefined {
+    if (keys.length === 0) return undefined;
+
+    const now = Date.now();
+    const available = keys.filter(key => isAvailable(provider, key, now));
+    let selected: string;
+
+    if (available.length === 0) {
+        selected = [...keys].sort(
+            (a, b) =>
+                (getHealth(provider, a)?.disabledUntil || 0) -
+                (getHealth(provider, b)?.disabledUntil || 0)
+        )[0];
+    } else if (strategy === 'least-limited') {
+        // 同样未被限流时选择最久未使用的，分散同时发出的请求
+        selected = [...available].sort((a, b) => {
+            const healthA = getHealth(provider, a);
+            const healthB = getHealth(provider, b);
+            return (
+                (healthA?.lastRateLimited || 0) - (healthB?.lastRateLimited || 0) ||
+                (healthA?.lastUsed || 0) - (healthB?.lastUsed || 0)
+            );
+        })[0];
+    } else {
+        const index = roundRobinIndex.get(provider) || 0;
+        selected = available[index % available.length];
+        roundRobinIndex.set(provider, index + 1);
+    }
+
+    updateHealth(provider, selected, { lastUsed: now });
+    return selected;
+}
+
+/**
+ * 记录请求结果，401/403/429 时停用该 Key
+ * 返回 Key 被停用后是否还有其他可用的 Key
+ */
+export function reportApiKeyResult(
+    provider: string,
+    keys: string[],
+    apiKey: string,
+    error?: ApiRequestError
+): boolean {
+    const now = Date.now();
+    if (!error) {
+        updateHealth(provider, apiKey, {
+            lastSuccess: now,
+            disabledUntil: undefined,
+            lastStatus: undefined,
+            lastError: undefined,
+            failures: 0
+        });
+        return false;
+    }
+
+    const status = error.status;
+    if (status !== 401 && status !== 403 && status !== 429) return false;
+
+    const failures = (getHealth(provider, apiKey)?.failures || 0) + 1;
+    const cooldown = status === 429 ? error.retryAfter ?? RATE_LIMIT_COOLDOWN : AUTH_COOLDOWN;
+    updateHealth(provider, apiKey, {
+        lastStatus: status,
+        lastError: error.message.split('\n')[0],
+        lastRateLimited: status === 429 ? now : getHealth(provider, apiKey)?.lastRateLimited,
+        disabledUntil: now + cooldown,
+        failures
+    });
+
+    return keys.some(key => key !== apiKey && isAvailable(provider, key, now));
+}
+
+/**
+ * 清除 Key 的健康状态（不指定 Key 时清除整个平台），被停用的 Key 立即恢复可用
+ */
+export function resetApiKeyHealth(provider: string, apiKey?: string) {
+    const providerHealth = { ...(healthState[provider] || {}) };
+    if (apiKey) {
+        delete providerHealth[apiKey];
+    } else {
+        roundRobinIndex.delete(provider);
+    }
+    healthState = { ...healthState, [provider]: apiKey ? providerHealth : {} };
+    apiKeyHealth.set(healthState);
+}
+
+/**
+ * 创建 chatWithRetry 使用的 Key 选择器
+ * 只配置了一个 Key 的平台不参与选择，直接使用请求参数中的 apiKey
+ */
+export function createApiKeySelector(
+    getProviderConfig: (provider: string) => ApiKeyPoolConfig | null | undefined
+): ApiKeySelector {
+    return {
+        select: provider => {
+            const config = getProviderConfig(provider);
+            const keys = getProviderApiKeys(config);
+            if (keys.length <= 1) return undefined;
+            return selectApiKey(provider, keys, config?.apiKeyStrategy);
+        },
+        report: (provider, apiKey, error) => {
+            const keys = getProviderApiKeys(getProviderConfig(provider));
+            if (keys.length <= 1) return false;
+            return reportApiKeyResult(provider, keys, apiKey, error);
+        }
+    };
+}
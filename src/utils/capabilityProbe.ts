@@ -0,0 +1,284 @@
+/**
+ * 模型能力探测
+ * 向模型发送极小的测试请求（工具调用、1x1 图片、思考模式、JSON 输出），按请求是否成功判断实际能力。
+ * 自定义的 OpenAI 兼容网关常用相同的模型ID代理不同的功能，按模型名称推断并不可靠
+ */
+
+import {
+    getApiFormat,
+    isSupportedThinkingClaudeModel,
+    isSupportedThinkingGeminiModel,
+    streamChat,
+    type AdvancedConfig,
+    type ApiRequestError,
+    type ChatOptions,
+    type Message
+} from '../ai-chat';
+import type { ModelConfig } from '../defaultSettings';
+
+export type ProbeCapability = 'toolCalling' | 'vision' | 'thinking' | 'structuredOutput';
+
+// 按顺序逐个探测，避免同时请求本地模型服务
+export const PROBE_CAPABILITIES: ProbeCapability[] = [
+    'toolCalling',
+    'vision',
+    'thinking',
+    'structuredOutput'
+];
+
+// supported：请求成功且响应中有对应内容；unsupported：请求被拒绝或响应中没有对应内容；
+// error：无法判断（网络错误、鉴权失败、限流、服务端错误），不修改现有设置
+export type ProbeStatus = 'supported' | 'unsupported' | 'error';
+
+export interface ProbeResult {
+    capability: ProbeCapability;
+    status: ProbeStatus;
+    message?: string; // 失败原因
+}
+
+export interface ProbeTarget {
+    provider: string;
+    apiKey: string;
+    customApiUrl?: string;
+    advancedConfig?: AdvancedConfig;
+    model: ModelConfig;
+}
+
+// 1x1 红色像素 PNG
+const PROBE_IMAGE =
+    'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==';
+const PROBE_IMAGE_COLOR = /red|红/i;
+
+const PROBE_TOOL = {
+    type: 'function',
+    function: {
+        name: 'get_probe_value',
+        description: 'Returns a test value. Always call this tool when asked.',
+        parameters: {
+            type: 'object',
+            properties: {
+                key: { type: 'string', description: 'Any key' }
+            },
+            required: ['key']
+        }
+    }
+};
+
+const PROBE_SCHEMA = {
+    name: 'probe_result',
+    schema: {
+        type: 'object',
+        properties: {
+            ok: { type: 'boolean' }
+        },
+        required: ['ok'],
+        additionalProperties: false
+    }
+};
+
+// 普通探测的最大输出，思考探测需要留出 Claude 的最小思考预算（1024）
+const PROBE_MAX_TOKENS = 64;
+const THINKING_PROBE_MAX_TOKENS = 2048;
+
+// OpenAI 兼容接口中开启思考模式的请求体字段
+const THINKING_BODY_KEYS = ['reasoning_effort', 'thinking', 'enable_thinking'];
+
+interface ProbeResponse {
+    text: string;
+    thinking: string;
+    toolCallCount: number;
+    reasoningTokens: number;
+}
+
+/**
+ * 解析模型的自定义参数，格式错误时按未设置处理，与对话请求一致
+ */
+function parseCustomBody(target: ProbeTarget): any {
+    if (!target.model.customBody) return undefined;
+    try {
+        return JSON.parse(target.model.customBody);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * 发送一次非流式测试请求，汇总响应内容
+ */
+async function sendProbeRequest(
+    target: ProbeTarget,
+    messages: Message[],
+    overrides: Partial<ChatOptions>,
+    signal?: AbortSignal
+): Promise<ProbeResponse> {
+    const options: ChatOptions = {
+        apiKey: target.apiKey,
+        model: target.model.id,
+        messages,
+        maxTokens: PROBE_MAX_TOKENS,
+        stream: false,
+        signal,
+        customBody: parseCustomBody(target),
+        parameters: target.model.parameters,
+        apiVersion: target.model.apiVersion,
+        apiFormat: target.model.apiFormat,
+        ...overrides
+    };
+
+    const response: ProbeResponse = { text: '', thinking: '', toolCallCount: 0, reasoningTokens: 0 };
+    const events = streamChat(target.provider, options, target.customApiUrl, target.advancedConfig);
+    for await (const event of events) {
+        switch (event.type) {
+            case 'text':
+                response.text += event.text;
+                break;
+            case 'thinking':
+                response.thinking += event.text;
+                break;
+            case 'tool_call_done':
+                response.toolCallCount += event.toolCalls.length;
+                break;
+            case 'usage':
+                response.reasoningTokens += event.usage.reasoningTokens || 0;
+                break;
+        }
+    }
+    return response;
+}
+
+async function probeToolCalling(target: ProbeTarget, signal?: AbortSignal): Promise<boolean> {
+    const response = await sendProbeRequest(
+        target,
+        [{ role: 'user', content: 'Call the get_probe_value tool with key "test".' }],
+        { tools: [PROBE_TOOL] },
+        signal
+    );
+    return response.toolCallCount > 0;
+}
+
+async function probeVision(target: ProbeTarget, signal?: AbortSignal): Promise<boolean> {
+    const response = await sendProbeRequest(
+        target,
+        [
+            {
+                role: 'user',
+                content: [
+                    { type: 'text', text: 'What color is this image? Answer in one word.' },
+                    { type: 'image_url', image_url: { url: PROBE_IMAGE } }
+                ]
+            }
+        ],
+        {},
+        signal
+    );
+    // 不支持图片的网关可能忽略图片只回复文本，需要回答出图片的颜色才算支持
+    return PROBE_IMAGE_COLOR.test(response.text);
+}
+
+/**
+ * 思考探测的自定义参数
+ * OpenAI 对话接口只为 Claude、Gemini 模型添加思考参数，其他模型显式发送 reasoning_effort，
+ * 拒绝该参数的网关返回 4xx，按不支持处理
+ */
+function getThinkingProbeBody(target: ProbeTarget): any {
+    const customBody = parseCustomBody(target);
+    const apiFormat = target.model.apiFormat || getApiFormat(target.provider, target.advancedConfig);
+    if (
+        apiFormat !== 'openai' ||
+        isSupportedThinkingClaudeModel(target.model.id) ||
+        isSupportedThinkingGeminiModel(target.model.id)
+    ) {
+        return customBody;
+    }
+    // 自定义参数中已经设置了思考参数（如 Qwen 的 enable_thinking）时使用自定义参数
+    if (THINKING_BODY_KEYS.some(key => customBody?.[key] !== undefined)) {
+        return customBody;
+    }
+    return { ...customBody, reasoning_effort: 'low' };
+}
+
+async function probeThinking(target: ProbeTarget, signal?: AbortSignal): Promise<boolean> {
+    const response = await sendProbeRequest(
+        target,
+        [{ role: 'user', content: 'What is 17 * 23?' }],
+        {
+            enableThinking: true,
+            reasoningEffort: 'low',
+            maxTokens: THINKING_PROBE_MAX_TOKENS,
+            customBody: getThinkingProbeBody(target)
+        },
+        signal
+    );
+    // 部分模型不返回思考内容，只在用量中报告思考 token 数
+    return response.thinking.trim().length > 0 || response.reasoningTokens > 0;
+}
+
+async function probeStructuredOutput(target: ProbeTarget, signal?: AbortSignal): Promise<boolean> {
+    const response = await sendProbeRequest(
+        target,
+        [{ role: 'user', content: 'Reply with a JSON object whose "ok" field is true.' }],
+        { responseSchema: PROBE_SCHEMA },
+        signal
+    );
+    try {
+        const parsed = JSON.parse(response.text);
+        return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed);
+    } catch {
+        return false;
+    }
+}
+
+const PROBES: Record<ProbeCapability, (target: ProbeTarget, signal?: AbortSignal) => Promise<boolean>> = {
+    toolCalling: probeToolCalling,
+    vision: probeVision,
+    thinking: probeThinking,
+    structuredOutput: probeStructuredOutput
+};
+
+/**
+ * 请求失败时判断是否说明不支持该能力
+ * 400/404/415/422 等客户端错误通常是网关拒绝了对应参数，鉴权、限流、服务端错误和网络错误无法判断
+ */
+function isUnsupportedError(error: ApiRequestError): boolean {
+    const status = error.status;
+    if (!status || status < 400 || status >= 500) return false;
+    return ![401, 403, 408, 429].includes(status);
+}
+
+/**
+ * 探测单项能力
+ */
+export async function probeCapability(
+    target: ProbeTarget,
+    capability: ProbeCapability,
+    signal?: AbortSignal
+): Promise<ProbeResult> {
+    try {
+        const supported = await PROBES[capability](target, signal);
+        return { capability, status: supported ? 'supported' : 'unsupported' };
+    } catch (error) {
+        if ((error as Error).name === 'AbortError') throw error;
+        return {
+            capability,
+            status: isUnsupportedError(error as ApiRequestError) ? 'unsupported' : 'error',
+            message: (error as Error).message
+        };
+    }
+}
+
+/**
+ * 依次探测所有能力，每项完成后调用 onResult
+ */
+export async function probeModelCapabilities(
+    target: ProbeTarget,
+    onResult?: (result: ProbeResult) => void,
+    signal?: AbortSignal
+): Promise<ProbeResult[]> {
+    const results: ProbeResult[] = [];
+    for (const capability of PROBE_CAPABILITIES) {
+        const result = await probeCapability(target, capability, signal);
+        results.push(result);
+        onResult?.(result);
+    }
+    return results;
+}
@@ -0,0 +1,211 @@
+/**
+ * 文档附件解析
+ * 在本地提取 PDF、Word、Excel、PowerPoint 的文本和页数，用于不支持原生文档的模型
+ */
+
+import type JSZip from 'jszip';
+
+export interface ParsedDocument {
+    text: string;
+    pageCount?: number; // PDF、Word 为页数，PowerPoint 为幻灯片数
+}
+
+// 支持的文档类型（扩展名 -> MIME 类型）
+export const DOCUMENT_MIME_TYPES: Record<string, string> = {
+    pdf: 'application/pdf',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+};
+
+function getExtension(fileName: string): string {
+    return fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+}
+
+/**
+ * 是否为支持解析的文档
+ */
+export function isDocumentFile(file: File): boolean {
+    return !!DOCUMENT_MIME_TYPES[getExtension(file.name)];
+}
+
+/**
+ * 文档的 MIME 类型（浏览器有时无法识别 Office 文档的类型）
+ */
+export function getDocumentMimeType(file: File): string {
+    return DOCUMENT_MIME_TYPES[getExtension(file.name)] || file.type;
+}
+
+// PDF.js（含 worker 源码）和 JSZip 体积较大，首次解析对应文档时再加载
+let pdfjsLoading: Promise<typeof import('pdfjs-dist')> | null = null;
+
+function loadPdfjs(): Promise<typeof import('pdfjs-dist')> {
+    if (!pdfjsLoading) {
+        pdfjsLoading = Promise.all([
+            import('pdfjs-dist'),
+            import('pdfjs-dist/build/pdf.worker.min.mjs?raw')
+        ]).then(
+            ([pdfjs, worker]) => {
+                // 插件目录下的 worker 无法按模块路径加载，通过 Blob URL 创建
+                const workerUrl = URL.createObjectURL(
+                    new Blob([worker.default], { type: 'text/javascript' })
+                );
+                pdfjs.GlobalWorkerOptions.workerPort = new Worker(workerUrl, { type: 'module' });
+                return pdfjs;
+            },
+            error => {
+                // 加载失败时允许下次重试
+                pdfjsLoading = null;
+                throw error;
+            }
+        );
+    }
+    return pdfjsLoading;
+}
+
+async function loadZip(data: ArrayBuffer): Promise<JSZip> {
+    const { default: JSZipModule } = await import('jszip');
+    return JSZipModule.loadAsync(data);
+}
+
+async function parsePdf(data: ArrayBuffer): Promise<ParsedDocument> {
+    const { getDocument } = await loadPdfjs();
+    // 关闭 eval，避免恶意 PDF 字体执行脚本
+    const pdf = await getDocument({ data: new Uint8Array(data), isEvalSupported: false }).promise;
+    try {
+        const pages: string[] = [];
+        for (let i = 1; i <= pdf.numPages; i++) {
+            const page = await pdf.getPage(i);
+            const content = await page.getTextContent();
+            let pageText = '';
+            for (const item of content.items) {
+                if (!('str' in item)) continue;
+                pageText += item.str + (item.hasEOL ? '\n' : '');
+            }
+            pages.push(pageText.trim());
+            page.cleanup();
+        }
+        return { text: pages.filter(Boolean).join('\n\n'), pageCount: pdf.numPages };
+    } finally {
+        await pdf.destroy();
+    }
+}
+
+async function readZipXml(zip: JSZip, path: string): Promise<Document | null> {
+    const file = zip.file(path);
+    if (!file) return null;
+    return new DOMParser().parseFromString(await file.async('string'), 'application/xml');
+}
+
+/**
+ * 按文件名中的序号排序（slide2.xml 在 slide10.xml 之前）
+ */
+function getNumberedFiles(zip: JSZip, pattern: RegExp): string[] {
+    return Object.keys(zip.files)
+        .filter(path => pattern.test(path))
+        .sort((a, b) => Number(a.match(pattern)![1]) - Number(b.match(pattern)![1]));
+}
+
+/**
+ * 提取 OOXML 段落的文本，段落之间换行
+ */
+function getParagraphsText(doc: Document, paragraphTag: string, textTag: string): string {
+    const lines: string[] = [];
+    for (const paragraph of Array.from(doc.getElementsByTagName(paragraphTag))) {
+        let line = '';
+        paragraph.querySelectorAll('*').forEach(node => {
+            if (node.nodeName === textTag) line += node.textContent || '';
+            else if (node.nodeName === 'w:tab') line += '\t';
+            else if (node.nodeName === 'w:br' || node.nodeName === 'a:br') line += '\n';
+        });
+        lines.push(line);
+    }
+    return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+async function parseDocx(data: ArrayBuffer): Promise<ParsedDocument> {
+    const zip = await loadZip(data);
+    const doc = await readZipXml(zip, 'word/document.xml');
+    if (!doc) throw new Error('Invalid Word document');
+
+    // docProps/app.xml 中保存了 Word 上次保存时统计的页数
+    const app = await readZipXml(zip, 'docProps/app.xml');
+    const pages = Number(app?.getElementsByTagName('Pages')[0]?.textContent);
+
+    return {
+        text: getParagraphsText(doc, 'w:p', 'w:t'),
+        pageCount: pages > 0 ? pages : undefined
+    };
+}
+
+async function parsePptx(data: ArrayBuffer): Promise<ParsedDocument> {
+    const zip = await loadZip(data);
+    const slides = getNumberedFiles(zip, /^ppt\/slides\/slide(\d+)\.xml$/);
+    const texts: string[] = [];
+    for (let i = 0; i < slides.length; i++) {
+        const doc = await readZipXml(zip, slides[i]);
+        const text = doc ? getParagraphsText(doc, 'a:p', 'a:t') : '';
+        texts.push(`### Slide ${i + 1}\n\n${text}`);
+    }
+    return { text: texts.join('\n\n'), pageCount: slides.length };
+}
+
+async function parseXlsx(data: ArrayBuffer): Promise<ParsedDocument> {
+    const zip = await loadZip(data);
+
+    const sharedStrings: string[] = [];
+    const sharedDoc = await readZipXml(zip, 'xl/sharedStrings.xml');
+    for (const item of Array.from(sharedDoc?.getElementsByTagName('si') || [])) {
+        sharedStrings.push(
+            Array.from(item.getElementsByTagName('t'))
+                .map(node => node.textContent || '')
+                .join('')
+        );
+    }
+
+    const workbook = await readZipXml(zip, 'xl/workbook.xml');
+    const sheetNames = Array.from(workbook?.getElementsByTagName('sheet') || []).map(sheet =>
+        sheet.getAttribute('name')
+    );
+
+    const texts: string[] = [];
+    const sheets = getNumberedFiles(zip, /^xl\/worksheets\/sheet(\d+)\.xml$/);
+    for (let i = 0; i < sheets.length; i++) {
+        const doc = await readZipXml(zip, sheets[i]);
+        if (!doc) continue;
+        // 每行输出为制表符分隔的文本
+        const rows = Array.from(doc.getElementsByTagName('row')).map(row =>
+            Array.from(row.getElementsByTagName('c'))
+                .map(cell => {
+                    const type = cell.getAttribute('t');
+                    if (type === 'inlineStr') {
+                        return cell.getElementsByTagName('t')[0]?.textContent || '';
+                    }
+                    const value = cell.getElementsByTagName('v')[0]?.textContent || '';
+                    return type === 's' ? sharedStrings[Number(value)] || '' : value;
+                })
+                .join('\t')
+        );
+        texts.push(`### ${sheetNames[i] || `Sheet ${i + 1}`}\n\n${rows.join('\n')}`);
+    }
+    return { text: texts.join('\n\n') };
+}
+
+/**
+ * 提取文档的文本和页数
+ */
+export async function parseDocument(file: File): Promise<ParsedDocument> {
+    const data = await file.arrayBuffer();
+    switch (getExtension(file.name)) {
+        case 'pdf':
+            return parsePdf(data);
+        case 'docx':
+            return parseDocx(data);
+        case 'pptx':
+            return parsePptx(data);
+        case 'xlsx':
+            return parseXlsx(data);
+        default:
+            throw new Error(`Unsupported document type: ${file.name}`);
+    }
+}
@@ -0,0 +1,352 @@
+/**
+ * 编辑模式的提示词、结构化输出 Schema 与编辑指令校验
+ */
+
+import type { EditOperation, ResponseSchema } from '../ai-chat';
+
+// 编辑模式的系统提示词
+export const EDIT_MODE_PROMPT = `你是一个专业的笔记编辑助手。当用户要求修改内容时，你必须返回JSON格式的编辑指令。
+
+**关于上下文格式**：
+用户提供的上下文将以以下格式呈现：
+
+## 文档: 文档标题
+或
+## 块: 块内容预览
+
+**BlockID**: \`20240101120000-abc123\`
+
+\`\`\`markdown
+这里是kramdown格式的内容，包含块ID信息：
+段落内容
+{: id="20240101120100-def456"}
+
+* 列表项
+  {: id="20240101120200-ghi789"}
+\`\`\`
+
+**关于BlockID和kramdown格式**：
+- **顶层BlockID**：位于 \`\`\`markdown 代码块之前，格式为 **BlockID**: \`xxxxxxxxxx-xxxxxxx\`
+- **子块ID标记**：在markdown代码块内，格式为 {: id="20240101120100-def456"}
+- 段落块会有 {: id="..."} 标记
+- 列表项会有 {: id="..."} 标记  
+- 标题、代码块等各种块都有ID标记
+
+你可以编辑任何包含ID标记的块，包括：
+- 顶层文档/块（使用代码块外的BlockID）
+- 文档内的任何子块（使用代码块内的 {: id="xxx"}）
+
+**提取BlockID的方法**：
+- 从 **BlockID**: \`xxxxx\` 获取顶层块ID
+- 从 {: id="xxxxx"} 获取子块ID
+- BlockID格式通常为：时间戳-字符串，如 20240101120000-abc123
+
+编辑指令格式（必须严格遵循）：
+\`\`\`json
+{
+  "editOperations": [
+    {
+      "operationType": "update",  // 操作类型："update"=更新块（默认），"insert"=插入新块
+      "blockId": "要编辑的块ID（可以是顶层块或子块的ID）",
+      "newContent": "修改后的内容（kramdown格式，保留必要的ID标记）"
+    },
+    {
+      "operationType": "insert",  // 插入新块
+      "blockId": "参考块的ID（在此块前后插入）",
+      "position": "after",  // "before"=在参考块之前插入，"after"=在参考块之后插入（默认）
+      "newContent": "新插入的内容（kramdown格式）"
+    }
+  ]
+}
+\`\`\`
+
+重要规则：
+1. **必须返回JSON格式**：使用上述JSON结构，包裹在 \`\`\`json 代码块中
+2. **blockId 必须来自上下文**：从 [BlockID: xxx] 或 {: id="xxx"} 中提取
+3. **可以编辑任何有ID的块**：不限于顶层块，子块也可以精确编辑
+4. **可以插入新块**：使用 operationType: "insert" 在指定块前后插入新内容
+5. **newContent格式**：应该是kramdown格式，如果编辑子块，内容要包含该块的ID标记；插入新块时不需要ID标记
+6. **可以批量编辑**：在 editOperations 数组中包含多个编辑操作
+7. 思源笔记kramdown格式如果要添加颜色：应该是<span data-type="text">添加颜色的文字1</span>{: style="color: var(--b3-font-color1);"}，优先使用以下颜色变量：
+  - --b3-font-color1: 红色
+  - --b3-font-color2: 橙色
+  - --b3-font-color3: 蓝色
+  - --b3-font-color4: 绿色
+  - --b3-font-color5: 灰色
+8. **添加说明**：在JSON代码块之外，添加文字说明你的修改
+
+示例1 - 编辑顶层块：
+好的，我会帮你改进这段内容：
+
+\`\`\`json
+{
+  "editOperations": [
+    {
+      "operationType": "update",
+      "blockId": "20240101120000-abc123",
+      "newContent": "这是修改后的整个文档内容\\n{: id=\\"20240101120000-abc123\\"}"
+    }
+  ]
+}
+\`\`\`
+
+示例2 - 编辑子块（推荐）：
+我会针对性地修改第二段和第三个列表项：
+
+\`\`\`json
+{
+  "editOperations": [
+    {
+      "operationType": "update",
+      "blockId": "20240101120100-def456",
+      "newContent": "这是修改后的第二段内容，表达更专业。\\n{: id=\\"20240101120100-def456\\"}"
+    },
+    {
+      "operationType": "update",
+      "blockId": "20240101120200-ghi789",
+      "newContent": "* 这是修改后的列表项\\n  {: id=\\"20240101120200-ghi789\\"}"
+    }
+  ]
+}
+\`\`\`
+
+我针对需要改进的具体段落和列表项进行了精确修改。
+
+示例3 - 插入新块：
+我会在第二段后面插入一段补充说明：
+
+\`\`\`json
+{
+  "editOperations": [
+    {
+      "operationType": "insert",
+      "blockId": "20240101120100-def456",
+      "position": "after",
+      "newContent": "这是新插入的补充段落，提供更多细节信息。"
+    }
+  ]
+}
+\`\`\`
+
+我在指定的段落后面添加了补充内容。
+
+示例4 - 混合操作：
+我会修改第一段并在其后插入新内容：
+
+\`\`\`json
+{
+  "editOperations": [
+    {
+      "operationType": "update",
+      "blockId": "20240101120100-def456",
+      "newContent": "这是修改后的段落内容。\\n{: id=\\"20240101120100-def456\\"}"
+    },
+    {
+      "operationType": "insert",
+      "blockId": "20240101120100-def456",
+      "position": "after",
+      "newContent": "这是紧跟在修改段落后的新增内容。"
+    }
+  ]
+}
+\`\`\`
+
+我修改了原段落并在其后添加了补充信息。
+
+注意：
+- 优先编辑子块而不是整个文档，这样更精确且不会影响其他内容
+- 只有在用户明确要求修改内容时才返回JSON编辑指令
+- 如果只是回答问题，则正常回复即可，不要返回JSON
+- 确保JSON格式正确，可以被解析
+- 确保blockId来自上下文中的ID标记（**BlockID**: \`xxx\` 或 {: id="xxx"}）
+- newContent应保留kramdown的ID标记
+- **重要**：newContent中只包含修改后的正文内容，不要包含"## 文档"、"## 块"或"**BlockID**:"这样的上下文标识，这些只是用于你理解上下文的`;
+
+// 使用结构化输出时追加的说明，覆盖上面关于代码块和文字说明的要求
+const STRUCTURED_OUTPUT_PROMPT = `
+
+**本次回复使用结构化输出**：直接返回符合 JSON Schema 的 JSON 对象，不要使用代码块，上面关于 \`\`\`json 代码块的要求不再适用。
+- explanation：对修改的文字说明；如果只是回答问题，在这里写出完整的回答
+- editOperations：编辑指令数组，不需要修改内容时返回空数组
+- operationType 为 "update" 时 position 填 "after"`;
+
+// 编辑模式的结构化输出 Schema（OpenAI strict 模式要求所有字段必填且不允许额外字段）
+export const EDIT_RESPONSE_SCHEMA: ResponseSchema = {
+    name: 'edit_operations',
+    description: '对笔记内容的编辑指令',
+    schema: {
+        type: 'object',
+        properties: {
+            explanation: {
+                type: 'string',
+                description: '对修改的文字说明，或对问题的回答',
+            },
+            editOperations: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        operationType: {
+                            type: 'string',
+                            enum: ['update', 'insert'],
+                            description: 'update=更新块，insert=插入新块',
+                        },
+                        blockId: {
+                            type: 'string',
+                            description: 'update时为要更新的块ID，insert时为参考块ID',
+                        },
+                        position: {
+                            type: 'string',
+                            enum: ['before', 'after'],
+                            description: '插入位置，仅insert时有效',
+                        },
+                        newContent: {
+                            type: 'string',
+                            description: '修改后或新插入的内容（kramdown格式）',
+                        },
+                    },
+                    required: ['operationType', 'blockId', 'position', 'newContent'],
+                    additionalProperties: false,
+                },
+            },
+        },
+        required: ['explanation', 'editOperations'],
+        additionalProperties: false,
+    },
+};
+
+// 思源块ID格式：14位时间戳-7位小写字母或数字
+const BLOCK_ID_PATTERN = /^\d{14}-[0-9a-z]{7}$/;
+
+// 编辑指令校验失败的原因，由界面按 aiSidebar.edit.errors 翻译
+export type EditErrorCode =
+    | 'notJson'
+    | 'invalidJson'
+    | 'missingOperations'
+    | 'notObject'
+    | 'invalidOperationType'
+    | 'invalidBlockId'
+    | 'invalidPosition'
+    | 'missingContent';
+
+export interface EditValidationError {
+    code: EditErrorCode;
+    path?: string; // 出错的字段，如 editOperations[0].blockId
+    index?: number; // 出错的编辑指令序号（从 1 开始）
+    value?: string; // 无效的字段值
+    detail?: string; // JSON 解析错误信息
+}
+
+export interface EditResponse {
+    explanation: string; // 文字说明，非结构化输出时为空
+    operations: EditOperation[];
+    error?: EditValidationError; // 校验失败的原因
+}
+
+/**
+ * 获取编辑模式的系统提示词
+ */
+export function getEditModePrompt(structuredOutput: boolean): string {
+    return structuredOutput ? EDIT_MODE_PROMPT + STRUCTURED_OUTPUT_PROMPT : EDIT_MODE_PROMPT;
+}
+
+/**
+ * 从回复中提取 JSON：优先使用 ```json 代码块，其次尝试整段解析
+ */
+function extractJson(content: string): { found: boolean; data?: any; error?: EditValidationError } {
+    const match = /```json\s*\n([\s\S]*?)\n```/i.exec(content);
+    const jsonStr = match ? match[1].trim() : content.trim();
+    if (!match && !jsonStr.startsWith('{')) {
+        return { found: false };
+    }
+    try {
+        return { found: true, data: JSON.parse(jsonStr) };
+    } catch (error) {
+        return { found: true, error: { code: 'invalidJson', detail: (error as Error).message } };
+    }
+}
+
+/**
+ * 校验单条编辑指令，返回错误原因
+ */
+function validateOperation(op: any, index: number): EditValidationError | null {
+    const fieldError = (code: EditErrorCode, field: string): EditValidationError => ({
+        code,
+        path: `editOperations[${index}].${field}`,
+        index: index + 1,
+        value: String(op[field])
+    });
+    if (!op || typeof op !== 'object') {
+        return { code: 'notObject', path: `editOperations[${index}]`, index: index + 1 };
+    }
+    if (op.operationType !== undefined && !['update', 'insert'].includes(op.operationType)) {
+        return fieldError('invalidOperationType', 'operationType');
+    }
+    if (typeof op.blockId !== 'string' || !BLOCK_ID_PATTERN.test(op.blockId.trim())) {
+        return fieldError('invalidBlockId', 'blockId');
+    }
+    if (op.position !== undefined && !['before', 'after'].includes(op.position)) {
+        return fieldError('invalidPosition', 'position');
+    }
+    if (typeof op.newContent !== 'string') {
+        return { code: 'missingContent', path: `editOperations[${index}].newContent`, index: index + 1 };
+    }
+    return null;
+}
+
+/**
+ * 解析并校验编辑模式的回复
+ * @param content AI 回复内容
+ * @param structuredOutput 是否使用了结构化输出（此时回复必须是符合 Schema 的 JSON）
+ */
+export function parseEditResponse(content: string, structuredOutput: boolean): EditResponse {
+    const result: EditResponse = { explanation: '', operations: [] };
+    const json = extractJson(content);
+
+    if (!json.found) {
+        // 非结构化输出时，没有 JSON 说明只是普通回答
+        if (structuredOutput) {
+            result.error = { code: 'notJson' };
+        }
+        return result;
+    }
+    const data = json.data;
+    const hasOperations = json.error
+        ? content.includes('editOperations')
+        : !!data && typeof data === 'object' && 'editOperations' in data;
+    // 非结构化输出时，回答中可能包含与编辑无关的 JSON，忽略即可
+    if (!structuredOutput && !hasOperations) {
+        return result;
+    }
+    if (json.error) {
+        result.error = json.error;
+        return result;
+    }
+    if (!hasOperations || !Array.isArray(data.editOperations)) {
+        result.error = { code: 'missingOperations', path: 'editOperations' };
+        return result;
+    }
+    if (typeof data.explanation === 'string') {
+        result.explanation = data.explanation;
+    }
+
+    for (let i = 0; i < data.editOperations.length; i++) {
+        const op = data.editOperations[i];
+        const error = validateOperation(op, i);
+        if (error) {
+            result.error = error;
+            result.operations = [];
+            return result;
+        }
+        result.operations.push({
+            operationType: op.operationType || 'update', // 默认为update
+            blockId: op.blockId.trim(),
+            newContent: op.newContent,
+            oldContent: undefined, // 稍后获取
+            status: 'pending',
+            position: op.position || 'after', // 默认在后面插入
+        });
+    }
+
+    return result;
+}
@@ -0,0 +1,102 @@
+/**
+ * 通过思源内核的 /api/network/forwardProxy 转发请求
+ * 用于没有 CORS 响应头的自建网关，以及浏览器 / 伺服端访问的思源客户端。
+ * 内核返回完整的响应体，流式接口的 SSE 数据会在请求结束后一次性交给解析器，相当于非流式输出
+ */
+
+import { forwardProxy } from '../api';
+import { base64ToBytes, bytesToBase64 } from './base64';
+
+// 内核转发请求的超时时间（思考模型的长回复可能需要数分钟）
+const KERNEL_PROXY_TIMEOUT = 10 * 60 * 1000;
+
+function createAbortError(): Error {
+    const error = new Error('Request aborted');
+    error.name = 'AbortError';
+    return error;
+}
+
+/**
+ * 与 fetch 相同签名的内核转发实现
+ * - 字符串请求体直接转发，FormData / Blob 等请求体按 base64 转发（保留 multipart 边界）
+ * - 响应体按 base64 返回，文本和二进制响应（图片、音频）都能还原
+ * - 内核请求无法中断，AbortSignal 触发时直接抛出 AbortError 并丢弃结果
+ * - 内核无法连接目标地址时抛出 TypeError，与 fetch 的网络错误一致，便于重试
+ */
+export async function kernelProxyFetch(input: string, init: RequestInit = {}): Promise<Response> {
+    const signal = init.signal;
+    if (signal?.aborted) throw createAbortError();
+
+    const request = new Request(input, { ...init, signal: undefined });
+    const headers: Array<Record<string, string>> = [];
+    let contentType = '';
+    request.headers.forEach((value, name) => {
+        if (name === 'content-type') {
+            contentType = value;
+        } else {
+            headers.push({ [name]: value });
+        }
+    });
+
+    let payload = '';
+    let payloadEncoding = 'text';
+    if (typeof init.body === 'string') {
+        payload = init.body;
+    } else if (init.body) {
+        payload = bytesToBase64(new Uint8Array(await request.arrayBuffer()));
+        payloadEncoding = 'base64';
+    }
+
+    const proxyRequest = forwardProxy(
+        request.url,
+        request.method,
+        payload,
+        headers,
+        KERNEL_PROXY_TIMEOUT,
+        contentType || 'application/json',
+        payloadEncoding,
+        'base64'
+    );
+
+    let result: IResForwardProxy | null;
+    if (signal) {
+        let onAbort: () => void = () => {};
+        const aborted = new Promise<never>((_, reject) => {
+            onAbort = () => reject(createAbortError());
+            signal.addEventListener('abort', onAbort, { once: true });
+        });
+        try {
+            result = await Promise.race([proxyRequest, aborted]);
+        } finally {
+            signal.removeEventListener('abort', onAbort);
+        }
+    } else {
+        result = await proxyRequest;
+    }
+
+    if (!result || !result.status) {
+        // 只显示主机名，避免 URL 中的 key 参数出现在错误信息中
+        throw new TypeError(`Kernel forward proxy failed to fetch ${new URL(request.url).host}`);
+    }
+
+    // 旧版本内核不支持 responseEncoding，此时响应体为文本
+    const body =
+        result.bodyEncoding && result.bodyEncoding !== 'text'
+            ? base64ToBytes(result.body || '').buffer
+            : result.body || '';
+
+    const responseHeaders = new Headers();
+    for (const [name, value] of Object.entries(result.headers || {})) {
+        responseHeaders.set(name, Array.isArray(value) ? value.join(', ') : String(value));
+    }
+    if (result.contentType && !responseHeaders.has('content-type')) {
+        responseHeaders.set('content-type', result.contentType);
+    }
+
+    // 204/304 等状态码不允许带响应体
+    const nullBody = [101, 204, 205, 304].includes(result.status);
+    return new Response(nullBody ? null : body, {
+        status: result.status,
+        headers: responseHeaders
+    });
+}
@@ -0,0 +1,399 @@
+/**
+ * API Key 加密存储
+ * settings.json 会同步到所有设备并随工作空间备份，因此平台的 API Key（含额外的 Key 和标记为隐藏的自定义请求头、查询参数）
+ * 设置密码后不以明文保存：使用用户密码通过 PBKDF2-SHA256 派生 AES-GCM 密钥，加密后保存在 encryptedApiKeys 中，每次保存使用新的 IV。
+ * 思源没有向插件提供系统钥匙串，派生的密钥只保存在内存中，每次启动后在第一次需要密钥时（保存或发送请求）解锁一次
+ */
+
+import { writable } from 'svelte/store';
+import { t } from './i18n';
+import { pushErrMsg, pushMsg } from '../api';
+import { base64ToBytes, bytesToBase64 } from './base64';
+
+// 保存在 settings.json 中的密文
+export interface EncryptedVault {
+    version: number;
+    salt: string; // base64
+    iterations: number;
+    iv: string; // base64
+    data: string; // base64，平台密钥 JSON 的密文
+}
+
+interface ProviderSecrets {
+    apiKey?: string;
+    apiKeys?: string[];
+    customHeaders?: Record<number, string>; // 序号 -> 隐藏的值
+    customQueryParams?: Record<number, string>;
+}
+
+// 平台ID（自定义平台为 custom:ID）-> 密钥
+type SecretMap = Record<string, ProviderSecrets>;
+
+// none：未设置密码；locked：已加密但本次会话未解锁；unlocked：已解锁
+export type KeyVaultStatus = 'none' | 'locked' | 'unlocked';
+
+// create 为设置新密码，unlock 为输入已有密码，返回 null 表示取消
+export type PassphrasePrompt = (mode: 'create' | 'unlock', error?: string) => Promise<string | null>;
+
+export const VAULT_SETTINGS_KEY = 'encryptedApiKeys';
+const VAULT_VERSION = 1;
+const PBKDF2_ITERATIONS = 600000;
+const SECRET_PARAM_FIELDS = ['customHeaders', 'customQueryParams'] as const;
+
+export const keyVaultStatus = writable<KeyVaultStatus>('none');
+
+let sessionKey: CryptoKey | null = null;
+let sessionSalt = ''; // base64
+// 最近一次读取或写入的密文，未解锁时原样写回
+let storedVault: EncryptedVault | null = null;
+let passphrasePrompt: PassphrasePrompt | null = null;
+// 保存设置时只自动弹出一次密码对话框，取消后在发送请求或设置中解锁
+let promptTask: Promise<boolean> | null = null;
+let promptDismissed = false;
+let unsavedWarningShown = false;
+// 内存中的设置是否已填入密文中的密钥（未解锁时读取的设置中密钥为空）
+let secretsLoaded = true;
+// 未解锁时新填写的密钥，解锁后合并保存
+let pendingSecrets: SecretMap = {};
+let unlockHandler: (() => Promise<unknown>) | null = null;
+
+async function deriveKey(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(passphrase),
+        'PBKDF2',
+        false,
+        ['deriveKey']
+    );
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt: base64ToBytes(salt), iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+}
+
+async function encryptSecrets(secrets: SecretMap): Promise<EncryptedVault> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        sessionKey!,
+        new TextEncoder().encode(JSON.stringify(secrets))
+    );
+    return {
+        version: VAULT_VERSION,
+        salt: sessionSalt,
+        iterations: PBKDF2_ITERATIONS,
+        iv: bytesToBase64(iv),
+        data: bytesToBase64(new Uint8Array(data))
+    };
+}
+
+async function decryptSecrets(vault: EncryptedVault, key: CryptoKey): Promise<SecretMap> {
+    const data = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: base64ToBytes(vault.iv) },
+        key,
+        base64ToBytes(vault.data)
+    );
+    return JSON.parse(new TextDecoder().decode(data));
+}
+
+/**
+ * 遍历设置中的所有平台配置（内置平台和自定义平台）
+ */
+function forEachProvider(settings: any, callback: (id: string, config: any) => void) {
+    const providers = settings?.aiProviders;
+    if (!providers || typeof providers !== 'object') return;
+    for (const [id, config] of Object.entries<any>(providers)) {
+        if (id !== 'customProviders' && config && typeof config === 'object') {
+            callback(id, config);
+        }
+    }
+    if (Array.isArray(providers.customProviders)) {
+        for (const config of providers.customProviders) {
+            if (config?.id) callback(`custom:${config.id}`, config);
+        }
+    }
+}
+
+function extractSecrets(settings: any): SecretMap {
+    const secrets: SecretMap = {};
+    forEachProvider(settings, (id, config) => {
+        const entry: ProviderSecrets = {};
+        if (config.apiKey) entry.apiKey = config.apiKey;
+        if (Array.isArray(config.apiKeys) && config.apiKeys.some(Boolean)) {
+            entry.apiKeys = [...config.apiKeys];
+        }
+        for (const field of SECRET_PARAM_FIELDS) {
+            (config.advancedConfig?.[field] || []).forEach((param: any, index: number) => {
+                if (param?.secret && param.value) {
+                    entry[field] = { ...entry[field], [index]: param.value };
+                }
+            });
+        }
+        if (Object.keys(entry).length > 0) secrets[id] = entry;
+    });
+    return secrets;
+}
+
+function removeSecrets(settings: any) {
+    forEachProvider(settings, (_id, config) => {
+        if (config.apiKey) config.apiKey = '';
+        if (Array.isArray(config.apiKeys)) config.apiKeys = config.apiKeys.map(() => '');
+        for (const field of SECRET_PARAM_FIELDS) {
+            for (const param of config.advancedConfig?.[field] || []) {
+                if (param?.secret) param.value = '';
+            }
+        }
+    });
+}
+
+/**
+ * 将解密的密钥填回设置，设置中已有的值优先（如其他设备写入的明文）
+ */
+function applySecrets(settings: any, secrets: SecretMap) {
+    forEachProvider(settings, (id, config) => {
+        const entry = secrets[id];
+        if (!entry) return;
+        if (!config.apiKey && entry.apiKey) config.apiKey = entry.apiKey;
+        if (entry.apiKeys && !(config.apiKeys || []).some(Boolean)) {
+            config.apiKeys = [...entry.apiKeys];
+        }
+        for (const field of SECRET_PARAM_FIELDS) {
+            const params = config.advancedConfig?.[field] || [];
+            for (const [index, value] of Object.entries(entry[field] || {})) {
+                const param = params[Number(index)];
+                if (param && !param.value) param.value = value;
+            }
+        }
+    });
+}
+
+function updateStatus() {
+    keyVaultStatus.set(sessionKey ? 'unlocked' : storedVault ? 'locked' : 'none');
+}
+
+/**
+ * 设置中是否有明文保存的密钥（需要迁移）
+ */
+export function hasPlainSecrets(settings: any): boolean {
+    return Object.keys(extractSecrets(settings)).length > 0;
+}
+
+export function isKeyVaultUnlocked(): boolean {
+    return !!sessionKey;
+}
+
+/**
+ * 密钥已加密保存但本次会话未解锁，此时设置中的 API Key 为空
+ */
+export function isKeyVaultLocked(): boolean {
+    return !sessionKey && !!storedVault;
+}
+
+/**
+ * 注册输入密码的对话框
+ */
+export function setPassphrasePrompt(prompt: PassphrasePrompt | null) {
+    passphrasePrompt = prompt;
+}
+
+/**
+ * 使用密码解锁，密码错误时抛出异常
+ */
+async function unlockWithPassphrase(vault: EncryptedVault, passphrase: string): Promise<void> {
+    const key = await deriveKey(passphrase, vault.salt, vault.iterations || PBKDF2_ITERATIONS);
+    // AES-GCM 校验失败说明密码错误
+    await decryptSecrets(vault, key);
+    sessionKey = key;
+    sessionSalt = vault.salt;
+    updateStatus();
+}
+
+/**
+ * 设置新密码（首次加密或修改密码），之后保存设置时使用新密码加密
+ */
+async function createKey(passphrase: string): Promise<void> {
+    sessionSalt = bytesToBase64(crypto.getRandomValues(new Uint8Array(16)));
+    sessionKey = await deriveKey(passphrase, sessionSalt, PBKDF2_ITERATIONS);
+    updateStatus();
+}
+
+/**
+ * 弹出密码对话框，解锁已有密文或设置新密码，返回是否成功
+ */
+export async function requestKeyVaultPassphrase(mode: 'create' | 'unlock'): Promise<boolean> {
+    if (!passphrasePrompt) return false;
+    let error: string | undefined;
+    for (;;) {
+        const passphrase = await passphrasePrompt(mode, error);
+        if (!passphrase) return false;
+        if (mode === 'create') {
+            await createKey(passphrase);
+            return true;
+        }
+        try {
+            await unlockWithPassphrase(storedVault!, passphrase);
+            return true;
+        } catch {
+            error = t('keyVault.wrongPassphrase');
+        }
+    }
+}
+
+/**
+ * 弹出密码对话框，并发调用共用同一个对话框
+ * 保存设置时取消后本次会话不再自动弹出（force 为 false），发送请求时总是弹出
+ */
+function ensureKey(mode: 'create' | 'unlock', force = false): Promise<boolean> {
+    if (sessionKey) return Promise.resolve(true);
+    if (promptDismissed && !force) return Promise.resolve(false);
+    if (!promptTask) {
+        promptTask = requestKeyVaultPassphrase(mode).then(success => {
+            promptDismissed = !success;
+            promptTask = null;
+            return success;
+        });
+    }
+    return promptTask;
+}
+
+/**
+ * 注册解锁后的回调（重新加载设置以填入解密后的密钥）
+ */
+export function setKeyVaultUnlockHandler(handler: (() => Promise<unknown>) | null) {
+    unlockHandler = handler;
+}
+
+/**
+ * 发送需要 API Key 的请求前调用：密钥已加密保存但本次会话未解锁时弹出密码对话框，解锁后重新加载设置
+ */
+export async function ensureKeyVaultUnlocked(): Promise<boolean> {
+    if (sessionKey || !storedVault) return true;
+    const unlocked = await ensureKey('unlock', true);
+    if (unlocked) await unlockHandler?.();
+    return unlocked;
+}
+
+/**
+ * 读取设置后调用：移除设置中的密文字段，已解锁时解密密钥并填回设置（不弹出密码对话框）
+ * 返回是否需要重新保存：文件中仍有明文密钥（迁移）或有未解锁时填写的密钥，且已可以加密
+ */
+export async function openSettings(settings: any): Promise<boolean> {
+    const vault: EncryptedVault | undefined = settings?.[VAULT_SETTINGS_KEY];
+    if (settings) delete settings[VAULT_SETTINGS_KEY];
+    const hasPlainKeys = hasPlainSecrets(settings);
+
+    if (!vault?.data) {
+        storedVault = null;
+        secretsLoaded = true;
+        updateStatus();
+        // 未设置密码时保留文件中的明文，第一次保存时提示设置密码
+        return !!sessionKey && hasPlainKeys;
+    }
+
+    storedVault = vault;
+    if (!sessionKey) {
+        secretsLoaded = false;
+        updateStatus();
+        return false;
+    }
+    try {
+        const secrets = await decryptSecrets(vault, sessionKey);
+        const hasPending = Object.keys(pendingSecrets).length > 0;
+        // 设置中已有的值优先，未解锁时填写的密钥优先于密文中的旧值
+        applySecrets(settings, pendingSecrets);
+        applySecrets(settings, secrets);
+        pendingSecrets = {};
+        secretsLoaded = true;
+        updateStatus();
+        return hasPlainKeys || hasPending;
+    } catch (error) {
+        // 其他设备修改了密码，需要重新解锁
+        console.warn('Failed to decrypt API keys:', error);
+        sessionKey = null;
+        secretsLoaded = false;
+        promptDismissed = false;
+        updateStatus();
+        return false;
+    }
+}
+
+/**
+ * 写入设置前调用：返回移除密钥后的副本，密钥加密后保存在 encryptedApiKeys 中
+ * 第一次保存密钥时弹出密码对话框；未解锁时原样保存已有的密文，新填写的密钥在解锁后合并保存；
+ * 未设置密码（取消了对话框）时原样返回设置，密钥仍以明文保存，其他设置照常保存
+ */
+export async function sealSettings(settings: any): Promise<any> {
+    let secrets = extractSecrets(settings);
+    const hasSecrets = Object.keys(secrets).length > 0;
+    if (!hasSecrets && !storedVault) {
+        return settings;
+    }
+
+    if (!sessionKey && hasSecrets) {
+        await ensureKey(storedVault ? 'unlock' : 'create');
+    }
+
+    if (sessionKey) {
+        if (storedVault && !secretsLoaded) {
+            // 保存时才解锁：合并密文中已有的密钥，并填回内存中的设置
+            applySecrets(settings, pendingSecrets);
+            applySecrets(settings, await decryptSecrets(storedVault, sessionKey));
+            secrets = extractSecrets(settings);
+            pendingSecrets = {};
+            secretsLoaded = true;
+        }
+        storedVault = await encryptSecrets(secrets);
+        unsavedWarningShown = false;
+        updateStatus();
+        return toSealedSettings(settings);
+    }
+
+    if (!storedVault) {
+        if (!unsavedWarningShown) {
+            unsavedWarningShown = true;
+            pushMsg(t('keyVault.noPassphrasePlainText'));
+        }
+        return settings;
+    }
+    if (hasSecrets && !unsavedWarningShown) {
+        unsavedWarningShown = true;
+        pushErrMsg(t('keyVault.lockedNotSaved'));
+    }
+    pendingSecrets = { ...pendingSecrets, ...secrets };
+    return toSealedSettings(settings);
+}
+
+function toSealedSettings(settings: any): any {
+    const sealed = JSON.parse(JSON.stringify(settings));
+    removeSecrets(sealed);
+    sealed[VAULT_SETTINGS_KEY] = storedVault;
+    return sealed;
+}
+
+/**
+ * 解锁（在设置中手动解锁），成功后需要重新加载设置
+ */
+export async function unlockKeyVault(): Promise<boolean> {
+    if (sessionKey) return true;
+    if (!storedVault) return false;
+    const success = await requestKeyVaultPassphrase('unlock');
+    if (success) promptDismissed = false;
+    return success;
+}
+
+/**
+ * 设置或修改密码，成功后需要重新保存设置以使用新密码加密
+ * 未解锁时设置中没有原有的密钥，需要先解锁并重新加载设置
+ */
+export async function changeKeyVaultPassphrase(): Promise<boolean> {
+    if (storedVault && !sessionKey) return false;
+    const success = await requestKeyVaultPassphrase('create');
+    if (success) {
+        promptDismissed = false;
+        unsavedWarningShown = false;
+    }
+    return success;
+}
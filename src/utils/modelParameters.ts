@@ -0,0 +1,225 @@
+/**
+ * 模型参数
+ * 参数编辑器中设置的常用采样参数按接口格式转换为请求体字段，再与自定义参数（customBody）合并，
+ * 自定义参数中的同名字段优先，作为编辑器不支持的参数的补充
+ */
+
+import type { ApiFormat } from '../ai-chat';
+
+export type GeminiHarmCategory =
+    | 'HARM_CATEGORY_HARASSMENT'
+    | 'HARM_CATEGORY_HATE_SPEECH'
+    | 'HARM_CATEGORY_SEXUALLY_EXPLICIT'
+    | 'HARM_CATEGORY_DANGEROUS_CONTENT'
+    | 'HARM_CATEGORY_CIVIC_INTEGRITY';
+
+export type GeminiSafetyThreshold =
+    | 'BLOCK_NONE'
+    | 'BLOCK_ONLY_HIGH'
+    | 'BLOCK_MEDIUM_AND_ABOVE'
+    | 'BLOCK_LOW_AND_ABOVE'
+    | 'OFF';
+
+export type ResponseVerbosity = 'low' | 'medium' | 'high';
+
+// 未设置的参数不发送，使用平台的默认值
+export interface ModelParameters {
+    topP?: number;
+    topK?: number;
+    frequencyPenalty?: number;
+    presencePenalty?: number;
+    seed?: number;
+    stop?: string[]; // 停止序列
+    verbosity?: ResponseVerbosity; // 回复详细程度（GPT-5 系列）
+    safetySettings?: Partial<Record<GeminiHarmCategory, GeminiSafetyThreshold>>; // Gemini 安全设置
+}
+
+export type ModelParameterKey = keyof ModelParameters;
+
+export interface ModelParameterField {
+    key: ModelParameterKey;
+    type: 'number' | 'integer' | 'stringList' | 'select' | 'safety';
+    min?: number;
+    max?: number;
+    step?: number;
+    options?: string[]; // select 的可选值
+}
+
+// 编辑器显示的参数，按顺序显示
+export const MODEL_PARAMETER_FIELDS: ModelParameterField[] = [
+    { key: 'topP', type: 'number', min: 0, max: 1, step: 0.05 },
+    { key: 'topK', type: 'integer', min: 1, step: 1 },
+    { key: 'frequencyPenalty', type: 'number', min: -2, max: 2, step: 0.1 },
+    { key: 'presencePenalty', type: 'number', min: -2, max: 2, step: 0.1 },
+    { key: 'seed', type: 'integer', step: 1 },
+    { key: 'stop', type: 'stringList' },
+    { key: 'verbosity', type: 'select', options: ['low', 'medium', 'high'] },
+    { key: 'safetySettings', type: 'safety' }
+];
+
+export const GEMINI_HARM_CATEGORIES: GeminiHarmCategory[] = [
+    'HARM_CATEGORY_HARASSMENT',
+    'HARM_CATEGORY_HATE_SPEECH',
+    'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+    'HARM_CATEGORY_DANGEROUS_CONTENT',
+    'HARM_CATEGORY_CIVIC_INTEGRITY'
+];
+
+export const GEMINI_SAFETY_THRESHOLDS: GeminiSafetyThreshold[] = [
+    'BLOCK_NONE',
+    'BLOCK_ONLY_HIGH',
+    'BLOCK_MEDIUM_AND_ABOVE',
+    'BLOCK_LOW_AND_ABOVE',
+    'OFF'
+];
+
+// 请求使用的模型和是否开启思考，部分参数只在特定模型或未开启思考时发送
+export interface ParameterContext {
+    modelId?: string;
+    enableThinking?: boolean;
+}
+
+// 各接口格式支持的参数及其在请求体中的路径（点分隔），没有列出的参数不发送
+// OpenAI 官方接口不接受 top_k 等未知参数（返回 400），需要时在自定义参数中填写
+const PARAMETER_PATHS: Record<ApiFormat, Partial<Record<ModelParameterKey, string>>> = {
+    openai: {
+        topP: 'top_p',
+        frequencyPenalty: 'frequency_penalty',
+        presencePenalty: 'presence_penalty',
+        seed: 'seed',
+        stop: 'stop',
+        verbosity: 'verbosity'
+    },
+    'openai-responses': {
+        topP: 'top_p',
+        verbosity: 'text.verbosity'
+    },
+    gemini: {
+        topP: 'generationConfig.topP',
+        topK: 'generationConfig.topK',
+        frequencyPenalty: 'generationConfig.frequencyPenalty',
+        presencePenalty: 'generationConfig.presencePenalty',
+        seed: 'generationConfig.seed',
+        stop: 'generationConfig.stopSequences',
+        safetySettings: 'safetySettings'
+    },
+    anthropic: {
+        topP: 'top_p',
+        topK: 'top_k',
+        stop: 'stop_sequences'
+    }
+};
+
+/**
+ * 是否为不能同时设置 temperature 和 top_p 的 Claude 模型（Opus 4.1、Sonnet 4.5 及之后的模型）
+ */
+function isTemperatureExclusiveClaudeModel(modelId: string): boolean {
+    const match = /claude-(?:opus|sonnet|haiku)-(\d+)(?:[-.](\d{1,2})(?!\d))?/.exec(
+        modelId.toLowerCase()
+    );
+    if (!match) return false;
+    const major = parseInt(match[1], 10);
+    return major > 4 || (major === 4 && parseInt(match[2] || '0', 10) >= 1);
+}
+
+/**
+ * 接口格式（及模型、思考模式）是否支持该参数
+ */
+export function isParameterSupported(
+    format: ApiFormat,
+    key: ModelParameterKey,
+    context: ParameterContext = {}
+): boolean {
+    if (!PARAMETER_PATHS[format]?.[key]) return false;
+    if (format === 'anthropic') {
+        // 开启思考时不支持 top_k
+        if (key === 'topK' && context.enableThinking) return false;
+        // 请求总会发送 temperature，这些模型同时设置 top_p 时返回 400
+        if (key === 'topP' && isTemperatureExclusiveClaudeModel(context.modelId || '')) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * 获取接口格式和模型支持的参数（是否开启思考在发送时才确定，编辑器中不区分）
+ */
+export function getParameterFields(format: ApiFormat, modelId?: string): ModelParameterField[] {
+    return MODEL_PARAMETER_FIELDS.filter(field =>
+        isParameterSupported(format, field.key, { modelId })
+    );
+}
+
+function isEmptyValue(value: any): boolean {
+    if (value === undefined || value === null || value === '') return true;
+    if (typeof value === 'number') return Number.isNaN(value);
+    if (Array.isArray(value)) return value.length === 0;
+    if (typeof value === 'object') return Object.keys(value).length === 0;
+    return false;
+}
+
+function isPlainObject(value: any): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function setPath(target: any, path: string, value: any) {
+    const keys = path.split('.');
+    let current = target;
+    for (const key of keys.slice(0, -1)) {
+        if (!isPlainObject(current[key])) current[key] = {};
+        current = current[key];
+    }
+    current[keys[keys.length - 1]] = value;
+}
+
+/**
+ * 深度合并请求体，source 中的字段优先，对象逐层合并，数组整体替换
+ */
+export function mergeRequestBody(target: any, source: any): any {
+    const result = { ...target };
+    for (const [key, value] of Object.entries(source || {})) {
+        result[key] =
+            isPlainObject(value) && isPlainObject(result[key])
+                ? mergeRequestBody(result[key], value)
+                : value;
+    }
+    return result;
+}
+
+/**
+ * 将模型参数转换为对应接口格式的请求体字段，当前模型或思考模式不支持的参数不发送
+ */
+export function buildParameterBody(
+    format: ApiFormat,
+    parameters?: ModelParameters,
+    context: ParameterContext = {}
+): any {
+    const body: any = {};
+    const paths = PARAMETER_PATHS[format] || {};
+    for (const [key, path] of Object.entries(paths) as [ModelParameterKey, string][]) {
+        if (!isParameterSupported(format, key, context)) continue;
+        let value: any = parameters?.[key];
+        if (key === 'stop' && Array.isArray(value)) {
+            value = value.filter(Boolean);
+        } else if (key === 'safetySettings' && value) {
+            value = Object.entries(value)
+                .filter(([, threshold]) => threshold)
+                .map(([category, threshold]) => ({ category, threshold }));
+        }
+        if (!isEmptyValue(value)) setPath(body, path, value);
+    }
+    return body;
+}
+
+/**
+ * 合并模型参数和自定义参数，得到附加到请求体的字段
+ */
+export function getModelRequestBody(
+    format: ApiFormat,
+    parameters?: ModelParameters,
+    customBody?: any,
+    context: ParameterContext = {}
+): any {
+    return mergeRequestBody(buildParameterBody(format, parameters, context), customBody);
+}
@@ -0,0 +1,151 @@
+/**
+ * 模型信息库
+ * 内置的 modelRegistry.json 记录常见模型的上下文窗口、最大输出、能力、思考预算范围和价格。
+ * models 按顺序匹配（去掉平台前缀的小写模型ID），每个字段取第一个声明了该字段的条目，
+ * 因此具体型号写在前面、系列通用值写在后面；traits 按关键词补充能力。
+ * 用户在设置中填写的同格式 JSON 数组排在内置条目之前
+ */
+
+import registryData from './modelRegistry.json';
+import { settingsStore } from '../stores/settings';
+import type { ModelPrice } from './usage';
+
+export interface ModelCapabilities {
+    thinking?: boolean;        // 是否支持思考模式
+    vision?: boolean;          // 是否支持视觉
+    documents?: boolean;       // 是否支持原生读取 PDF 文档
+    imageGeneration?: boolean; // 是否支持生图
+    toolCalling?: boolean;     // 是否支持工具调用
+    webSearch?: boolean;       // 是否支持联网搜索
+    structuredOutput?: boolean; // 是否支持结构化输出（JSON Schema）
+}
+
+// 思考预算范围（token 数）
+export interface ThinkingBudgetRange {
+    min: number;
+    max: number;
+}
+
+export interface ModelRegistryEntry {
+    pattern: string;                      // 匹配模型ID的正则表达式
+    contextLength?: number;               // 上下文窗口（token 数）
+    maxOutput?: number;                   // 最大输出 token 数
+    capabilities?: ModelCapabilities;     // 模型能力
+    thinkingBudget?: ThinkingBudgetRange; // 思考预算范围（Claude）
+    price?: ModelPrice;                   // 价格（美元 / 百万 token）
+}
+
+// 合并所有匹配条目后的模型信息
+export type ModelRegistryInfo = Omit<ModelRegistryEntry, 'pattern'>;
+
+interface CompiledEntry {
+    regex: RegExp;
+    entry: ModelRegistryEntry;
+}
+
+function compileEntries(entries: ModelRegistryEntry[]): CompiledEntry[] {
+    const compiled: CompiledEntry[] = [];
+    for (const entry of entries) {
+        if (!entry || typeof entry.pattern !== 'string') continue;
+        try {
+            compiled.push({ regex: new RegExp(entry.pattern), entry });
+        } catch {
+            console.warn('Invalid model registry pattern:', entry.pattern);
+        }
+    }
+    return compiled;
+}
+
+const builtInModels = compileEntries(registryData.models as ModelRegistryEntry[]);
+const builtInTraits = compileEntries(registryData.traits as ModelRegistryEntry[]);
+
+// 用户覆盖项，随设置更新
+let overrideSource = '';
+let overrideModels: CompiledEntry[] = [];
+
+/**
+ * 解析设置中的覆盖项，格式错误时抛出异常
+ */
+export function parseModelRegistryOverrides(source: string): ModelRegistryEntry[] {
+    if (!source || !source.trim()) return [];
+    const entries = JSON.parse(source);
+    if (!Array.isArray(entries) || entries.some(entry => typeof entry?.pattern !== 'string')) {
+        throw new Error('Model registry overrides must be an array of entries with a pattern');
+    }
+    return entries;
+}
+
+settingsStore.subscribe(settings => {
+    const source = settings?.modelRegistryOverrides || '';
+    if (source === overrideSource) return;
+    overrideSource = source;
+    try {
+        overrideModels = compileEntries(parseModelRegistryOverrides(source));
+    } catch (error) {
+        console.warn('Invalid model registry overrides:', error);
+        overrideModels = [];
+    }
+});
+
+/**
+ * 获取模型在信息库中的信息，未知模型返回空对象
+ */
+export function getModelRegistryInfo(modelId: string): ModelRegistryInfo {
+    const id = (modelId.split('/').pop() || '').toLowerCase();
+    const info: ModelRegistryInfo = {};
+    let overrideCapabilities: ModelCapabilities | undefined;
+    for (const { regex, entry } of overrideModels) {
+        if (regex.test(id)) overrideCapabilities ??= entry.capabilities;
+    }
+    for (const { regex, entry } of [...overrideModels, ...builtInModels]) {
+        if (!regex.test(id)) continue;
+        info.contextLength ??= entry.contextLength;
+        info.maxOutput ??= entry.maxOutput;
+        info.capabilities ??= entry.capabilities;
+        info.thinkingBudget ??= entry.thinkingBudget;
+        info.price ??= entry.price;
+    }
+
+    // 返回新的能力对象，调用方会直接修改模型配置中的能力
+    const capabilities: ModelCapabilities = { ...info.capabilities };
+    for (const { regex, entry } of builtInTraits) {
+        if (regex.test(id)) Object.assign(capabilities, entry.capabilities);
+    }
+    // 覆盖项中设置的能力优先于内置特征，可以关闭特征添加的能力
+    Object.assign(capabilities, overrideCapabilities);
+    info.capabilities = capabilities;
+    return info;
+}
+
+/**
+ * 获取模型的所有能力
+ * @param modelId 模型ID或名称
+ * @returns 模型能力对象
+ */
+export function getModelCapabilities(modelId: string): ModelCapabilities {
+    return getModelRegistryInfo(modelId).capabilities;
+}
+
+/**
+ * 获取模型的上下文窗口大小，未知模型返回 undefined
+ */
+export function getDefaultContextLength(modelId: string): number | undefined {
+    return getModelRegistryInfo(modelId).contextLength;
+}
+
+/**
+ * 模型能力的 emoji 字符串（带前导空格，无能力时为空字符串）
+ */
+export function getCapabilitiesEmoji(capabilities?: ModelCapabilities): string {
+    if (!capabilities) return '';
+
+    const emojis: string[] = [];
+    if (capabilities.thinking) emojis.push('💡');
+    if (capabilities.vision) emojis.push('👀');
+    if (capabilities.imageGeneration) emojis.push('🖼️');
+    if (capabilities.toolCalling) emojis.push('🛠️');
+    if (capabilities.webSearch) emojis.push('🌐');
+    if (capabilities.structuredOutput) emojis.push('🧩');
+
+    return emojis.length > 0 ? ' ' + emojis.join(' ') : '';
+}
@@ -0,0 +1,76 @@
+/**
+ * 平台配置查找
+ * 内置平台的配置保存在 aiProviders[平台ID] 中，自定义平台保存在 aiProviders.customProviders 中
+ */
+
+import type { AdvancedConfig } from '../ai-chat';
+import type { ProviderConfig } from '../defaultSettings';
+import { getSettings } from '../stores/settings';
+import { t } from './i18n';
+import { ensureKeyVaultUnlocked, isKeyVaultLocked } from './keyVault';
+
+// 向某个平台的模型发送请求所需的配置
+export interface ProviderRequestTarget {
+    provider: string;
+    model: string;
+    apiKey: string;
+    customApiUrl: string;
+    apiVersion?: string; // Azure OpenAI 部署的 API 版本
+    advancedConfig?: AdvancedConfig;
+}
+
+/**
+ * 根据平台ID获取平台配置，未配置时返回 null
+ */
+export function getProviderConfig(
+    providers: Record<string, any> | undefined,
+    providerId: string
+): ProviderConfig | null {
+    if (!providers || !providerId) return null;
+    const config = providers[providerId];
+    if (config && !Array.isArray(config)) return config;
+    return (providers.customProviders || []).find((p: any) => p.id === providerId) || null;
+}
+
+/**
+ * 获取向指定平台和模型发送请求所需的配置，平台或模型未配置时返回 null
+ */
+export function getProviderRequestTarget(
+    providers: Record<string, any> | undefined,
+    providerId?: string,
+    modelId?: string
+): ProviderRequestTarget | null {
+    const model = modelId?.trim();
+    if (!providerId || !model) return null;
+
+    const providerConfig = getProviderConfig(providers, providerId);
+    if (!providerConfig) return null;
+
+    return {
+        provider: providerId,
+        model,
+        apiKey: providerConfig.apiKey || '',
+        customApiUrl: providerConfig.customApiUrl || '',
+        apiVersion: providerConfig.models?.find(m => m.id === model)?.apiVersion,
+        advancedConfig: providerConfig.advancedConfig
+    };
+}
+
+/**
+ * 发送请求前获取平台配置：API Key 已加密保存但本次会话未解锁时先弹出密码对话框
+ * 解锁后设置会重新加载，调用方传入的设置中密钥为空，因此从重新加载的设置中读取
+ * 取消解锁时抛出异常，不使用空的 API Key 发送请求
+ */
+export async function getUnlockedRequestTarget(
+    providers: Record<string, any> | undefined,
+    providerId?: string,
+    modelId?: string
+): Promise<ProviderRequestTarget | null> {
+    if (isKeyVaultLocked()) {
+        if (!(await ensureKeyVaultUnlocked())) {
+            throw new Error(t('keyVault.lockedRequest'));
+        }
+        providers = (await getSettings()).aiProviders;
+    }
+    return getProviderRequestTarget(providers, providerId, modelId);
+}
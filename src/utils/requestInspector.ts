@@ -0,0 +1,224 @@
+/**
+ * 请求检查器
+ * 记录发送给 AI 平台的最终请求体和收到的原始数据，API Key 脱敏后保存在插件存储的 request-log.json 中，
+ * 用于调试自定义平台以及审计哪些笔记内容被发送出去
+ */
+
+import type { Plugin } from 'siyuan';
+import type { ChatInspector, ChatRequestInfo } from '../ai-chat';
+
+export interface InspectorRecord {
+    id: string;
+    time: number; // 发送请求的时间
+    provider: string;
+    model: string;
+    url: string;
+    headers: Record<string, string>;
+    body: any; // 脱敏后的请求体
+    events: string[]; // 原始响应数据（流式响应的每个 SSE data）
+    eventsTruncated?: boolean; // 原始数据超出上限被截断
+    status: 'completed' | 'error';
+    error?: string;
+    duration: number; // 耗时（毫秒）
+}
+
+export const INSPECTOR_LOG_FILE = 'request-log.json';
+// 滚动保留的请求数量，超出时删除最早的记录
+const MAX_RECORDS = 200;
+// 单个请求保留的原始数据条数和总长度
+const MAX_EVENTS = 2000;
+const MAX_EVENT_CHARS = 512 * 1024;
+// 日志文件的总长度上限（字符数），每次请求都会重写整个文件，超出时删除最早的记录
+const MAX_LOG_CHARS = 4 * 1024 * 1024;
+// 超过该长度的 base64 数据（图片等）只保留长度信息
+const BASE64_MIN_LENGTH = 512;
+const REDACTED = '***';
+
+// 可能包含凭据的请求头
+const SENSITIVE_HEADER_PATTERN = /authorization|api-key|apikey|token|secret|cookie/i;
+// URL 中可能包含凭据的查询参数（如 Gemini 的 key=）
+const SENSITIVE_QUERY_PATTERN = /([?&](?:key|api[-_]?key|token|access_token)=)[^&#]*/gi;
+
+/**
+ * 请求头或查询参数的名称是否像凭据
+ */
+export function isSensitiveParamName(name: string): boolean {
+    return SENSITIVE_HEADER_PATTERN.test(name) || /^key$|api_key/i.test(name);
+}
+
+/**
+ * 将文本中出现的密钥替换为 ***
+ */
+export function redactSecrets(text: string, secrets: string[]): string {
+    let result = text;
+    for (const secret of secrets) {
+        // 过短的值可能误伤正常内容
+        if (secret && secret.length >= 8) {
+            result = result.split(secret).join(REDACTED);
+        }
+    }
+    return result;
+}
+
+/**
+ * 脱敏 URL 中的凭据参数
+ */
+export function redactUrl(url: string, secrets: string[] = []): string {
+    return redactSecrets(url.replace(SENSITIVE_QUERY_PATTERN, `$1${REDACTED}`), secrets);
+}
+
+/**
+ * 脱敏请求头，凭据类请求头只保留名称
+ */
+export function redactHeaders(
+    headers: Record<string, string>,
+    secrets: string[] = []
+): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+        result[name] = SENSITIVE_HEADER_PATTERN.test(name)
+            ? REDACTED
+            : redactSecrets(String(value), secrets);
+    }
+    return result;
+}
+
+/**
+ * 脱敏请求体：移除密钥，并将内联的 base64 数据替换为长度说明，避免日志过大
+ */
+export function redactBody(body: any, secrets: string[] = []): any {
+    const json = JSON.stringify(body ?? null, (_key, value) => {
+        if (typeof value !== 'string' || value.length < BASE64_MIN_LENGTH) return value;
+        const dataUrl = /^data:([^;,]+);base64,/.exec(value);
+        if (dataUrl) {
+            return `[${dataUrl[1]} base64, ${value.length} chars]`;
+        }
+        // 不含空白的 base64 字符串（普通长文本包含空格或换行）
+        if (/^[A-Za-z0-9+/=]+$/.test(value)) {
+            return `[base64, ${value.length} chars]`;
+        }
+        return value;
+    });
+    return JSON.parse(redactSecrets(json, secrets));
+}
+
+// 请求记录缓存，侧栏和设置面板共享
+let cachedRecords: InspectorRecord[] | null = null;
+// 记录序列化后的长度，避免每次写入重新计算全部记录
+const recordSizes = new WeakMap<InspectorRecord, number>();
+// 串行写入，避免并发请求互相覆盖
+let writeQueue: Promise<void> = Promise.resolve();
+
+function getRecordSize(record: InspectorRecord): number {
+    let size = recordSizes.get(record);
+    if (size === undefined) {
+        size = JSON.stringify(record).length;
+        recordSizes.set(record, size);
+    }
+    return size;
+}
+
+/**
+ * 读取全部请求记录（按时间正序）
+ */
+export async function loadInspectorRecords(plugin: Plugin): Promise<InspectorRecord[]> {
+    if (cachedRecords) return cachedRecords;
+    try {
+        const data = await plugin.loadData(INSPECTOR_LOG_FILE);
+        cachedRecords = Array.isArray(data?.records) ? data.records : [];
+    } catch (error) {
+        console.error('Load request log error:', error);
+        cachedRecords = [];
+    }
+    return cachedRecords;
+}
+
+/**
+ * 追加一条请求记录，记录数或总长度超出上限时删除最早的记录（至少保留最新的一条）
+ */
+function appendInspectorRecord(plugin: Plugin, record: InspectorRecord): Promise<void> {
+    writeQueue = writeQueue.then(async () => {
+        try {
+            const records = [...(await loadInspectorRecords(plugin)), record].slice(-MAX_RECORDS);
+            let totalSize = records.reduce((sum, r) => sum + getRecordSize(r), 0);
+            while (records.length > 1 && totalSize > MAX_LOG_CHARS) {
+                totalSize -= getRecordSize(records.shift()!);
+            }
+            cachedRecords = records;
+            await plugin.saveData(INSPECTOR_LOG_FILE, { records });
+        } catch (error) {
+            console.error('Save request log error:', error);
+        }
+    });
+    return writeQueue;
+}
+
+/**
+ * 清空请求记录
+ */
+export function clearInspectorRecords(plugin: Plugin): Promise<void> {
+    writeQueue = writeQueue.then(async () => {
+        cachedRecords = [];
+        await plugin.saveData(INSPECTOR_LOG_FILE, { records: [] });
+    });
+    return writeQueue;
+}
+
+/**
+ * 创建请求检查器：包装 streamChat 的回调，记录每次请求的请求体和原始响应
+ * 重试和备用模型的每次请求分别记录
+ */
+export function createChatInspector(plugin: Plugin): ChatInspector {
+    return (provider, options) => {
+        const secrets = [options.apiKey];
+        let record: InspectorRecord | null = null;
+        let eventChars = 0;
+
+        const finish = (error?: Error) => {
+            if (!record) return;
+            record.duration = Date.now() - record.time;
+            if (error) {
+                record.status = 'error';
+                record.error = redactSecrets(error.message, secrets);
+            }
+            appendInspectorRecord(plugin, record);
+            record = null;
+        };
+
+        return {
+            ...options,
+            onRequest: (request: ChatRequestInfo) => {
+                finish();
+                record = {
+                    id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+                    time: Date.now(),
+                    provider,
+                    model: options.model,
+                    url: redactUrl(request.url, secrets),
+                    headers: redactHeaders(request.headers, secrets),
+                    body: redactBody(request.body, secrets),
+                    events: [],
+                    status: 'completed',
+                    duration: 0
+                };
+                eventChars = 0;
+                options.onRequest?.(request);
+            },
+            onRawEvent: (data: string) => {
+                if (record) {
+                    if (record.events.length < MAX_EVENTS && eventChars < MAX_EVENT_CHARS) {
+                        record.events.push(redactSecrets(data, secrets));
+                        eventChars += data.length;
+                    } else {
+                        record.eventsTruncated = true;
+                    }
+                }
+                options.onRawEvent?.(data);
+            },
+            onRequestEnd: (error?: Error) => {
+                finish(error);
+                options.onRequestEnd?.(error);
+            }
+        };
+    };
+}
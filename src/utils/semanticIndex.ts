@@ -0,0 +1,516 @@
+/**
+ * 笔记语义索引
+ * 按块切分文档并通过向量化接口生成向量，索引信息保存在插件存储的 semantic-index.json 中，
+ * 文档按 ID 分片保存在 semantic-index-XX.json 中；
+ * 根据块的 updated 时间增量更新，对话时检索最相关的块作为上下文
+ */
+
+import type { Plugin } from 'siyuan';
+import { writable } from 'svelte/store';
+import { sql } from '../api';
+import { fetchEmbeddings, type ContextDocument } from '../ai-chat';
+import { base64ToBytes, bytesToBase64 } from './base64';
+import { getProviderRequestTarget, getUnlockedRequestTarget } from './providerConfig';
+
+export interface SemanticIndexSettings {
+    enableSemanticIndex?: boolean;
+    embeddingProvider?: string;
+    embeddingModel?: string;
+    retrievalTopK?: number;
+    aiProviders?: Record<string, any>;
+}
+
+export interface SemanticIndexStatus {
+    running: boolean;
+    processedDocs: number; // 本次更新已处理的文档数
+    pendingDocs: number; // 本次更新需要处理的文档数
+    indexedDocs: number; // 索引中的文档数
+    chunks: number; // 索引中的块数
+    lastUpdated?: number; // 上次完成更新的时间
+    error?: string;
+}
+
+export interface SemanticSearchResult {
+    blockId: string;
+    docId: string;
+    title: string; // 文档标题
+    content: string;
+    score: number; // 余弦相似度
+}
+
+// 索引中的块，向量已归一化
+interface IndexedChunk {
+    id: string;
+    text: string;
+    vector: Float32Array;
+}
+
+interface IndexedDoc {
+    updated: string; // 文档内所有块的最新 updated 时间
+    title: string;
+    chunks: IndexedChunk[];
+}
+
+interface SemanticIndex {
+    embeddingKey: string; // 平台ID::模型ID，切换向量模型后需要重建索引
+    updatedAt?: number;
+    indexedUntil?: string; // 已完整索引到的块 updated 时间，之后只查询此后修改过的文档
+    docs: Record<string, IndexedDoc>;
+}
+
+// 保存到文件的文档，向量以 Float32 的 base64 存储
+type StoredDocs = Record<
+    string,
+    { updated: string; title: string; chunks: Array<{ id: string; text: string; vector: string }> }
+>;
+
+// 保存到 semantic-index.json 的索引信息（版本 1 的索引在其中保存全部文档）
+interface StoredSemanticIndex {
+    version: number;
+    embeddingKey: string;
+    updatedAt?: number;
+    indexedUntil?: string;
+    docs?: StoredDocs;
+}
+
+export const SEMANTIC_INDEX_FILE = 'semantic-index.json';
+const INDEX_VERSION = 2;
+const LEGACY_INDEX_VERSION = 1;
+// 文档按 ID 的哈希分到固定数量的分片中，保存时只写入修改过的分片
+const SHARD_COUNT = 64;
+export const DEFAULT_RETRIEVAL_TOP_K = 5;
+// 参与索引的叶子块类型：段落、标题、代码、公式、表格、HTML
+const INDEXED_BLOCK_TYPES = ['p', 'h', 'c', 'm', 't', 'html'];
+// 过短的块（如空段落、单个符号）不参与索引
+const MIN_CHUNK_CHARS = 8;
+// 单个块参与向量化的最大字符数
+const MAX_CHUNK_CHARS = 2000;
+// 每次向量化请求的文本数
+const EMBEDDING_BATCH_SIZE = 32;
+// 索引的文档数上限
+const MAX_INDEXED_DOCS = 100000;
+
+export const semanticIndexStatus = writable<SemanticIndexStatus>({
+    running: false,
+    processedDocs: 0,
+    pendingDocs: 0,
+    indexedDocs: 0,
+    chunks: 0
+});
+
+// 索引缓存，侧栏和设置面板共享
+let cachedIndex: SemanticIndex | null = null;
+// 有修改、尚未保存的分片
+const dirtyShards = new Set<number>();
+// 串行写入
+let writeQueue: Promise<void> = Promise.resolve();
+// 正在进行的索引更新
+let indexingTask: Promise<void> | null = null;
+let indexingAbort: AbortController | null = null;
+
+function getShardFile(shard: number): string {
+    return `semantic-index-${String(shard).padStart(2, '0')}.json`;
+}
+
+function getDocShard(docId: string): number {
+    let hash = 0;
+    for (let i = 0; i < docId.length; i++) {
+        hash = (hash * 31 + docId.charCodeAt(i)) >>> 0;
+    }
+    return hash % SHARD_COUNT;
+}
+
+function markAllShardsDirty() {
+    for (let shard = 0; shard < SHARD_COUNT; shard++) {
+        dirtyShards.add(shard);
+    }
+}
+
+function encodeVector(vector: Float32Array): string {
+    return bytesToBase64(new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength));
+}
+
+function decodeVector(data: string): Float32Array {
+    return new Float32Array(base64ToBytes(data).buffer);
+}
+
+/**
+ * 归一化向量，之后余弦相似度即为点积
+ */
+function normalizeVector(values: number[]): Float32Array {
+    const vector = new Float32Array(values);
+    let norm = 0;
+    for (let i = 0; i < vector.length; i++) {
+        norm += vector[i] * vector[i];
+    }
+    norm = Math.sqrt(norm);
+    if (norm > 0) {
+        for (let i = 0; i < vector.length; i++) {
+            vector[i] /= norm;
+        }
+    }
+    return vector;
+}
+
+function dotProduct(a: Float32Array, b: Float32Array): number {
+    const length = Math.min(a.length, b.length);
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+        sum += a[i] * b[i];
+    }
+    return sum;
+}
+
+function getEmbeddingKey(settings: SemanticIndexSettings): string {
+    return `${settings.embeddingProvider || ''}::${settings.embeddingModel || ''}`;
+}
+
+/**
+ * 获取向量化使用的平台配置，未配置时返回 null；API Key 未解锁时先解锁
+ */
+function getEmbeddingTarget(settings: SemanticIndexSettings) {
+    return getUnlockedRequestTarget(
+        settings.aiProviders,
+        settings.embeddingProvider,
+        settings.embeddingModel
+    );
+}
+
+/**
+ * 是否已配置向量模型
+ */
+export function isSemanticIndexConfigured(settings: SemanticIndexSettings): boolean {
+    return !!getProviderRequestTarget(
+        settings.aiProviders,
+        settings.embeddingProvider,
+        settings.embeddingModel
+    );
+}
+
+function updateStatus(index: SemanticIndex, patch: Partial<SemanticIndexStatus> = {}) {
+    const docs = Object.values(index.docs);
+    semanticIndexStatus.update(status => ({
+        ...status,
+        indexedDocs: docs.length,
+        chunks: docs.reduce((sum, doc) => sum + doc.chunks.length, 0),
+        lastUpdated: index.updatedAt,
+        ...patch
+    }));
+}
+
+function decodeDocs(index: SemanticIndex, docs?: StoredDocs) {
+    for (const [docId, doc] of Object.entries(docs || {})) {
+        index.docs[docId] = {
+            updated: doc.updated,
+            title: doc.title,
+            chunks: doc.chunks.map(chunk => ({ ...chunk, vector: decodeVector(chunk.vector) }))
+        };
+    }
+}
+
+/**
+ * 读取索引
+ */
+async function loadSemanticIndex(plugin: Plugin): Promise<SemanticIndex> {
+    if (cachedIndex) return cachedIndex;
+    let index: SemanticIndex = { embeddingKey: '', docs: {} };
+    try {
+        const data: StoredSemanticIndex = await plugin.loadData(SEMANTIC_INDEX_FILE);
+        if (data?.version === INDEX_VERSION) {
+            index = {
+                embeddingKey: data.embeddingKey,
+                updatedAt: data.updatedAt,
+                indexedUntil: data.indexedUntil,
+                docs: {}
+            };
+            const shards: StoredDocs[] = await Promise.all(
+                Array.from({ length: SHARD_COUNT }, (_, shard) => plugin.loadData(getShardFile(shard)))
+            );
+            shards.forEach(docs => decodeDocs(index, docs));
+        } else if (data?.version === LEGACY_INDEX_VERSION && data.docs) {
+            // 旧版本的索引保存在单个文件中，下次保存时拆分为分片
+            index = { embeddingKey: data.embeddingKey, updatedAt: data.updatedAt, docs: {} };
+            decodeDocs(index, data.docs);
+            markAllShardsDirty();
+        }
+    } catch (error) {
+        console.error('Load semantic index error:', error);
+    }
+    cachedIndex = index;
+    updateStatus(index);
+    return index;
+}
+
+/**
+ * 读取索引并刷新状态（设置面板打开时调用）
+ */
+export async function loadSemanticIndexStatus(plugin: Plugin): Promise<void> {
+    await loadSemanticIndex(plugin);
+}
+
+/**
+ * 保存修改过的分片和索引信息
+ */
+function saveSemanticIndex(plugin: Plugin, index: SemanticIndex): Promise<void> {
+    writeQueue = writeQueue.then(async () => {
+        const shards = new Map<number, StoredDocs>([...dirtyShards].map(shard => [shard, {}]));
+        dirtyShards.clear();
+        try {
+            for (const [docId, doc] of Object.entries(index.docs)) {
+                const docs = shards.get(getDocShard(docId));
+                if (!docs) continue;
+                docs[docId] = {
+                    updated: doc.updated,
+                    title: doc.title,
+                    chunks: doc.chunks.map(chunk => ({ ...chunk, vector: encodeVector(chunk.vector) }))
+                };
+            }
+            for (const [shard, docs] of shards) {
+                await plugin.saveData(getShardFile(shard), docs);
+                shards.delete(shard);
+            }
+            const data: StoredSemanticIndex = {
+                version: INDEX_VERSION,
+                embeddingKey: index.embeddingKey,
+                updatedAt: index.updatedAt,
+                indexedUntil: index.indexedUntil
+            };
+            await plugin.saveData(SEMANTIC_INDEX_FILE, data);
+        } catch (error) {
+            console.error('Save semantic index error:', error);
+            // 未写入的分片在下次保存时重试
+            shards.forEach((_, shard) => dirtyShards.add(shard));
+        }
+    });
+    return writeQueue;
+}
+
+/**
+ * 清空索引
+ */
+export async function clearSemanticIndex(plugin: Plugin): Promise<void> {
+    stopSemanticIndex();
+    await indexingTask?.catch(() => undefined);
+    cachedIndex = { embeddingKey: '', docs: {} };
+    markAllShardsDirty();
+    updateStatus(cachedIndex, { error: undefined });
+    await saveSemanticIndex(plugin, cachedIndex);
+}
+
+/**
+ * 删除索引文件（卸载插件时调用）
+ */
+export async function removeSemanticIndex(plugin: Plugin): Promise<void> {
+    await plugin.removeData(SEMANTIC_INDEX_FILE);
+    for (let shard = 0; shard < SHARD_COUNT; shard++) {
+        await plugin.removeData(getShardFile(shard));
+    }
+}
+
+/**
+ * 停止正在进行的索引更新
+ */
+export function stopSemanticIndex(): void {
+    indexingAbort?.abort();
+}
+
+/**
+ * 将文档切分为块，返回参与向量化的文本
+ */
+async function getDocChunks(docId: string): Promise<{ title: string; chunks: Array<{ id: string; text: string }> }> {
+    const types = INDEXED_BLOCK_TYPES.map(type => `'${type}'`).join(',');
+    const rows = await sql(
+        `SELECT id, type, content FROM blocks WHERE root_id = '${docId}' AND (type = 'd' OR type IN (${types})) LIMIT 100000`
+    );
+    const title = rows.find(row => row.type === 'd')?.content || '';
+    const chunks = rows
+        .filter(row => row.type !== 'd')
+        .map(row => ({ id: row.id as string, text: ((row.content as string) || '').trim() }))
+        .filter(chunk => chunk.text.length >= MIN_CHUNK_CHARS)
+        .map(chunk => ({ ...chunk, text: chunk.text.slice(0, MAX_CHUNK_CHARS) }));
+    return { title, chunks };
+}
+
+/**
+ * 增量更新索引：只处理新增和修改过的文档，并移除已删除的文档
+ * 切换向量模型或 rebuild 为 true 时重建全部索引
+ */
+export async function updateSemanticIndex(
+    plugin: Plugin,
+    settings: SemanticIndexSettings,
+    rebuild = false
+): Promise<void> {
+    if (indexingTask) return indexingTask;
+
+    const target = await getEmbeddingTarget(settings);
+    if (!target) {
+        throw new Error('Embedding model is not configured');
+    }
+    // 等待解锁期间可能已开始更新
+    if (indexingTask) return indexingTask;
+
+    const abort = new AbortController();
+    indexingAbort = abort;
+    indexingTask = (async () => {
+        const index = await loadSemanticIndex(plugin);
+        const embeddingKey = getEmbeddingKey(settings);
+        if (rebuild || index.embeddingKey !== embeddingKey) {
+            index.embeddingKey = embeddingKey;
+            index.indexedUntil = undefined;
+            index.docs = {};
+            markAllShardsDirty();
+        }
+
+        // 移除已删除的文档（只查询文档块）
+        const docRows = await sql(`SELECT id FROM blocks WHERE type = 'd' LIMIT ${MAX_INDEXED_DOCS}`);
+        const existingDocs = new Set<string>(docRows.map(row => row.id));
+        for (const docId of Object.keys(index.docs)) {
+            if (!existingDocs.has(docId)) {
+                delete index.docs[docId];
+                dirtyShards.add(getDocShard(docId));
+            }
+        }
+
+        // 只查询上次索引之后修改过的文档，每个文档以其中最新的块 updated 时间作为版本
+        // （同一秒内修改的文档会再次查询到，按版本比较后跳过）
+        const since = index.indexedUntil ? `WHERE updated >= '${index.indexedUntil}' ` : '';
+        const rows = await sql(
+            `SELECT root_id, MAX(updated) AS updated FROM blocks ${since}GROUP BY root_id LIMIT ${MAX_INDEXED_DOCS}`
+        );
+        const indexedUntil = rows.reduce<string>(
+            (latest, row) => (row.updated > latest ? row.updated : latest),
+            index.indexedUntil || ''
+        );
+        // 按分片顺序处理，每个分片处理完后保存一次
+        const changedDocs = rows
+            .map(row => [row.root_id, row.updated] as [string, string])
+            .filter(([docId, updated]) => existingDocs.has(docId) && index.docs[docId]?.updated !== updated)
+            .sort(([a], [b]) => getDocShard(a) - getDocShard(b));
+        updateStatus(index, { running: true, processedDocs: 0, pendingDocs: changedDocs.length, error: undefined });
+
+        let processed = 0;
+        for (const [docId, updated] of changedDocs) {
+            if (abort.signal.aborted) break;
+
+            const { title, chunks } = await getDocChunks(docId);
+            const indexedChunks: IndexedChunk[] = [];
+            for (let i = 0; i < chunks.length; i += EMBEDDING_BATCH_SIZE) {
+                const batch = chunks.slice(i, i + EMBEDDING_BATCH_SIZE);
+                const { embeddings } = await fetchEmbeddings(
+                    target.provider,
+                    {
+                        apiKey: target.apiKey,
+                        model: target.model,
+                        // 带上文档标题，使块在脱离上下文时仍可被检索到
+                        input: batch.map(chunk => (title ? `${title}\n${chunk.text}` : chunk.text)),
+                        taskType: 'document',
+                        signal: abort.signal
+                    },
+                    target.customApiUrl,
+                    target.advancedConfig
+                );
+                batch.forEach((chunk, j) => {
+                    if (embeddings[j]?.length) {
+                        indexedChunks.push({ ...chunk, vector: normalizeVector(embeddings[j]) });
+                    }
+                });
+            }
+            index.docs[docId] = { updated, title, chunks: indexedChunks };
+            dirtyShards.add(getDocShard(docId));
+
+            processed++;
+            updateStatus(index, { processedDocs: processed });
+            const nextDoc = changedDocs[processed];
+            if (nextDoc && getDocShard(nextDoc[0]) !== getDocShard(docId)) {
+                await saveSemanticIndex(plugin, index);
+            }
+        }
+
+        if (!abort.signal.aborted) {
+            index.updatedAt = Date.now();
+            // 全部处理完成后才推进，中断时下次仍查询未处理的文档
+            index.indexedUntil = indexedUntil || undefined;
+        }
+        await saveSemanticIndex(plugin, index);
+    })()
+        .catch(async error => {
+            if ((error as Error).name !== 'AbortError') {
+                console.error('Update semantic index error:', error);
+                semanticIndexStatus.update(status => ({ ...status, error: (error as Error).message }));
+            }
+            // 保存已完成的部分
+            if (cachedIndex) {
+                await saveSemanticIndex(plugin, cachedIndex);
+            }
+            throw error;
+        })
+        .finally(() => {
+            indexingTask = null;
+            indexingAbort = null;
+            semanticIndexStatus.update(status => ({ ...status, running: false }));
+        });
+    return indexingTask;
+}
+
+/**
+ * 检索与查询最相关的块
+ */
+export async function searchSemanticIndex(
+    plugin: Plugin,
+    settings: SemanticIndexSettings,
+    query: string,
+    topK: number = settings.retrievalTopK || DEFAULT_RETRIEVAL_TOP_K
+): Promise<SemanticSearchResult[]> {
+    if (!isSemanticIndexConfigured(settings) || !query.trim()) return [];
+    const target = await getEmbeddingTarget(settings);
+    if (!target) return [];
+
+    const index = await loadSemanticIndex(plugin);
+    // 索引由其他向量模型生成时，向量不可比较
+    if (index.embeddingKey !== getEmbeddingKey(settings)) return [];
+
+    const { embeddings } = await fetchEmbeddings(
+        target.provider,
+        {
+            apiKey: target.apiKey,
+            model: target.model,
+            input: [query.slice(0, MAX_CHUNK_CHARS)],
+            taskType: 'query'
+        },
+        target.customApiUrl,
+        target.advancedConfig
+    );
+    if (!embeddings[0]?.length) return [];
+    const queryVector = normalizeVector(embeddings[0]);
+
+    const results: SemanticSearchResult[] = [];
+    for (const [docId, doc] of Object.entries(index.docs)) {
+        for (const chunk of doc.chunks) {
+            results.push({
+                blockId: chunk.id,
+                docId,
+                title: doc.title,
+                content: chunk.text,
+                score: dotProduct(queryVector, chunk.vector)
+            });
+        }
+    }
+    return results.sort((a, b) => b.score - a.score).slice(0, topK);
+}
+
+/**
+ * 检索笔记，返回可直接加入对话的上下文文档
+ */
+export async function retrieveContextDocuments(
+    plugin: Plugin,
+    settings: SemanticIndexSettings,
+    query: string
+): Promise<ContextDocument[]> {
+    const results = await searchSemanticIndex(plugin, settings, query);
+    return results.map(result => ({
+        id: result.blockId,
+        title: result.title || result.content.slice(0, 20),
+        content: result.content,
+        type: 'block'
+    }));
+}
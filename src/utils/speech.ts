@@ -0,0 +1,433 @@
+/**
+ * 语音输入与朗读
+ * - 语音输入：使用 MediaRecorder 录音，通过 OpenAI 兼容的 /v1/audio/transcriptions 接口转写为文字
+ * - 朗读：通过 OpenAI 兼容的 /v1/audio/speech 接口合成语音，未配置或请求失败时使用浏览器的 Web Speech API
+ */
+
+import { get, writable } from 'svelte/store';
+import { synthesizeSpeech, transcribeAudio } from '../ai-chat';
+import { getProviderRequestTarget, getUnlockedRequestTarget } from './providerConfig';
+
+export interface SpeechSettings {
+    aiProviders?: any;
+    transcriptionProvider?: string;
+    transcriptionModel?: string;
+    transcriptionLanguage?: string;
+    ttsProvider?: string;
+    ttsModel?: string;
+    ttsVoice?: string;
+    ttsSpeed?: number;
+}
+
+export interface VoiceRecorder {
+    stop: () => Promise<Blob>; // 停止录音并返回录音数据
+    cancel: () => void; // 停止录音并丢弃数据
+}
+
+// 按优先级尝试的录音格式（Chromium 支持 webm，Safari 只支持 mp4）
+const RECORDING_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg;codecs=opus'];
+
+// 转写接口根据文件扩展名识别格式
+const MIME_EXTENSIONS: Record<string, string> = {
+    'audio/webm': 'webm',
+    'audio/mp4': 'mp4',
+    'audio/ogg': 'ogg',
+    'audio/wav': 'wav',
+    'audio/mpeg': 'mp3'
+};
+
+export type ReadAloudStatus = 'idle' | 'loading' | 'playing' | 'paused';
+
+export interface ReadAloudState {
+    status: ReadAloudStatus;
+    engine?: 'api' | 'browser'; // 语音接口 / 浏览器语音合成
+    key?: string; // 正在朗读的内容标识（如消息索引），用于界面显示
+}
+
+// /v1/audio/speech 单次请求的最大字符数为 4096，按句子拆分后依次合成
+const TTS_CHUNK_SIZE = 4000;
+// 浏览器语音合成的单段长度（Chromium 朗读长文本时会在十几秒后中断）
+const BROWSER_CHUNK_SIZE = 200;
+// 保留最近几次朗读的音频，用于保存到笔记
+const AUDIO_CACHE_SIZE = 5;
+
+export const readAloudState = writable<ReadAloudState>({ status: 'idle' });
+
+let readAloudSession = 0;
+let readAloudController: AbortController | null = null;
+let currentAudio: HTMLAudioElement | null = null;
+let finishPlayback: (() => void) | null = null;
+const readAloudAudioCache = new Map<string, Blob>();
+
+// 发送请求前获取平台配置，API Key 未解锁时先解锁
+function getTranscriptionTarget(settings: SpeechSettings) {
+    return getUnlockedRequestTarget(
+        settings.aiProviders,
+        settings.transcriptionProvider,
+        settings.transcriptionModel
+    );
+}
+
+function getTtsTarget(settings: SpeechSettings) {
+    return getUnlockedRequestTarget(settings.aiProviders, settings.ttsProvider, settings.ttsModel);
+}
+
+/**
+ * 是否已配置语音转文字模型
+ */
+export function isVoiceInputConfigured(settings: SpeechSettings): boolean {
+    return !!getProviderRequestTarget(
+        settings.aiProviders,
+        settings.transcriptionProvider,
+        settings.transcriptionModel
+    );
+}
+
+/**
+ * 是否已配置语音合成模型（未配置时朗读使用浏览器语音合成）
+ */
+export function isTextToSpeechConfigured(settings: SpeechSettings): boolean {
+    return !!getProviderRequestTarget(settings.aiProviders, settings.ttsProvider, settings.ttsModel);
+}
+
+/**
+ * 当前环境是否支持浏览器语音合成
+ */
+export function isBrowserSpeechSupported(): boolean {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window;
+}
+
+/**
+ * 当前环境是否支持录音
+ */
+export function isVoiceRecordingSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+}
+
+/**
+ * 请求麦克风权限并开始录音
+ */
+export async function startVoiceRecording(): Promise<VoiceRecorder> {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const mimeType = RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+
+    recorder.addEventListener('dataavailable', event => {
+        if (event.data.size > 0) chunks.push(event.data);
+    });
+
+    // 停止录音后释放麦克风，否则系统会一直显示正在使用
+    const release = () => stream.getTracks().forEach(track => track.stop());
+
+    recorder.start();
+
+    return {
+        stop: () =>
+            new Promise<Blob>((resolve, reject) => {
+                if (recorder.state === 'inactive') {
+                    release();
+                    reject(new Error('Recording is not active'));
+                    return;
+                }
+                recorder.addEventListener(
+                    'stop',
+                    () => {
+                        release();
+                        resolve(new Blob(chunks, { type: recorder.mimeType || mimeType || 'audio/webm' }));
+                    },
+                    { once: true }
+                );
+                recorder.stop();
+            }),
+        cancel: () => {
+            if (recorder.state !== 'inactive') recorder.stop();
+            release();
+        }
+    };
+}
+
+/**
+ * 将录音转写为文字
+ */
+export async function transcribeRecording(
+    settings: SpeechSettings,
+    audio: Blob,
+    signal?: AbortSignal
+): Promise<string> {
+    const target = await getTranscriptionTarget(settings);
+    if (!target) {
+        throw new Error('Speech-to-text model is not configured');
+    }
+
+    const baseType = audio.type.split(';')[0];
+    return transcribeAudio(
+        target.provider,
+        {
+            apiKey: target.apiKey,
+            model: target.model,
+            audio,
+            fileName: `audio.${MIME_EXTENSIONS[baseType] || 'webm'}`,
+            language: settings.transcriptionLanguage?.trim() || undefined,
+            apiVersion: target.apiVersion,
+            signal
+        },
+        target.customApiUrl,
+        target.advancedConfig
+    );
+}
+
+/**
+ * 去除 Markdown 标记，得到适合朗读的纯文本
+ * 代码块、公式和图片不朗读，链接只保留文字
+ */
+export function stripMarkdown(markdown: string): string {
+    return (markdown || '')
+        .replace(/```[\s\S]*?(```|$)/g, '\n')
+        .replace(/\$\$[\s\S]*?\$\$/g, '\n')
+        .replace(/<think>[\s\S]*?<\/think>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/`([^`]*)`/g, '$1')
+        .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+        .replace(/^\s{0,3}>\s?/gm, '')
+        .replace(/^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?/gm, '')
+        .replace(/^\s*\|?(?:\s*:?-{3,}:?\s*\|)+\s*:?-*:?\s*$/gm, '')
+        .replace(/\|/g, ' ')
+        .replace(/^\s*(?:-{3,}|\*{3,}|_{3,})\s*$/gm, '')
+        .replace(/(\*\*|\*|~~|==)(?=\S)([\s\S]*?\S)\1/g, '$2')
+        .replace(/[ \t]+/g, ' ')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/**
+ * 按句子拆分文本，每段不超过 maxLength 个字符
+ */
+function splitSpeechText(text: string, maxLength: number): string[] {
+    const sentences = text.match(/[^。！？!?.;；\n]+[。！？!?.;；\n]*/g) || [text];
+    const chunks: string[] = [];
+    let current = '';
+    for (const sentence of sentences) {
+        if (current && current.length + sentence.length > maxLength) {
+            chunks.push(current);
+            current = '';
+        }
+        // 没有标点的超长句子直接截断
+        for (let i = 0; i < sentence.length; i += maxLength) {
+            const part = sentence.slice(i, i + maxLength);
+            if (current.length + part.length > maxLength) {
+                chunks.push(current);
+                current = '';
+            }
+            current += part;
+        }
+    }
+    if (current.trim()) chunks.push(current);
+    return chunks.map(chunk => chunk.trim()).filter(Boolean);
+}
+
+function cacheReadAloudAudio(text: string, audio: Blob) {
+    readAloudAudioCache.delete(text);
+    readAloudAudioCache.set(text, audio);
+    while (readAloudAudioCache.size > AUDIO_CACHE_SIZE) {
+        readAloudAudioCache.delete(readAloudAudioCache.keys().next().value);
+    }
+}
+
+/**
+ * 获取内容最近一次通过语音接口朗读生成的音频，没有时返回 undefined
+ */
+export function getReadAloudAudio(markdown: string): Blob | undefined {
+    return readAloudAudioCache.get(stripMarkdown(markdown));
+}
+
+function playAudioBlob(audio: Blob): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(audio);
+        const element = new Audio(url);
+        const cleanup = () => {
+            URL.revokeObjectURL(url);
+            if (currentAudio === element) currentAudio = null;
+            finishPlayback = null;
+        };
+        finishPlayback = () => {
+            element.pause();
+            cleanup();
+            resolve();
+        };
+        element.addEventListener('ended', () => {
+            cleanup();
+            resolve();
+        });
+        element.addEventListener('error', () => {
+            cleanup();
+            reject(new Error('Audio playback failed'));
+        });
+        currentAudio = element;
+        element.play().catch(error => {
+            cleanup();
+            reject(error);
+        });
+    });
+}
+
+/**
+ * 通过语音接口朗读，合成下一段的同时播放当前段
+ */
+async function readAloudWithApi(settings: SpeechSettings, text: string, session: number, signal: AbortSignal) {
+    const target = await getTtsTarget(settings);
+    if (!target) {
+        throw new Error('Text-to-speech model is not configured');
+    }
+    const synthesize = (input: string) =>
+        synthesizeSpeech(
+            target.provider,
+            {
+                apiKey: target.apiKey,
+                model: target.model,
+                input,
+                voice: settings.ttsVoice?.trim() || 'alloy',
+                speed: settings.ttsSpeed,
+                apiVersion: target.apiVersion,
+                signal
+            },
+            target.customApiUrl,
+            target.advancedConfig
+        );
+
+    const chunks = splitSpeechText(text, TTS_CHUNK_SIZE);
+    const audios: Blob[] = [];
+    let next = synthesize(chunks[0]);
+    for (let i = 0; i < chunks.length; i++) {
+        const audio = await next;
+        if (session !== readAloudSession) return;
+        audios.push(audio);
+        if (i + 1 < chunks.length) {
+            next = synthesize(chunks[i + 1]);
+            // 播放被停止时不再等待，避免未处理的 Promise 拒绝
+            next.catch(() => {});
+        }
+        readAloudState.update(state => ({ ...state, status: 'playing', engine: 'api' }));
+        await playAudioBlob(audio);
+        if (session !== readAloudSession) return;
+    }
+
+    cacheReadAloudAudio(text, new Blob(audios, { type: audios[0]?.type || 'audio/mpeg' }));
+}
+
+/**
+ * 通过浏览器语音合成朗读
+ */
+function readAloudWithBrowser(settings: SpeechSettings, text: string, session: number): Promise<void> {
+    if (!isBrowserSpeechSupported()) {
+        return Promise.reject(new Error('Speech synthesis is not supported in this environment'));
+    }
+    return new Promise((resolve, reject) => {
+        const chunks = splitSpeechText(text, BROWSER_CHUNK_SIZE);
+        finishPlayback = () => {
+            finishPlayback = null;
+            window.speechSynthesis.cancel();
+            resolve();
+        };
+        readAloudState.update(state => ({ ...state, status: 'playing', engine: 'browser' }));
+        chunks.forEach((chunk, index) => {
+            const utterance = new SpeechSynthesisUtterance(chunk);
+            if (settings.transcriptionLanguage?.trim()) {
+                utterance.lang = settings.transcriptionLanguage.trim();
+            }
+            utterance.rate = settings.ttsSpeed || 1;
+            if (index === chunks.length - 1) {
+                utterance.onend = () => {
+                    if (session === readAloudSession) finishPlayback = null;
+                    resolve();
+                };
+            }
+            utterance.onerror = event => {
+                if (event.error === 'interrupted' || event.error === 'canceled') {
+                    resolve();
+                } else {
+                    reject(new Error(`Speech synthesis failed: ${event.error}`));
+                }
+            };
+            window.speechSynthesis.speak(utterance);
+        });
+    });
+}
+
+/**
+ * 朗读 Markdown 内容，会先停止正在进行的朗读
+ * 配置了语音合成模型时使用语音接口，未配置或第一段合成失败时使用浏览器语音合成
+ */
+export async function startReadAloud(settings: SpeechSettings, markdown: string, key?: string) {
+    stopReadAloud();
+
+    const text = stripMarkdown(markdown);
+    if (!text) {
+        throw new Error('Nothing to read aloud');
+    }
+
+    const session = ++readAloudSession;
+    const controller = new AbortController();
+    readAloudController = controller;
+    readAloudState.set({ status: 'loading', key });
+
+    try {
+        let useBrowser = !isTextToSpeechConfigured(settings);
+        if (!useBrowser) {
+            try {
+                await readAloudWithApi(settings, text, session, controller.signal);
+            } catch (error) {
+                if (session !== readAloudSession) return;
+                // 已经开始播放后失败时不再切换，避免重复朗读
+                if (get(readAloudState).engine === 'api' || !isBrowserSpeechSupported()) throw error;
+                console.warn('Speech API failed, falling back to browser speech synthesis:', error);
+                useBrowser = true;
+            }
+        }
+        if (useBrowser && session === readAloudSession) {
+            await readAloudWithBrowser(settings, text, session);
+        }
+    } finally {
+        if (session === readAloudSession) {
+            readAloudController = null;
+            readAloudState.set({ status: 'idle' });
+        }
+    }
+}
+
+/**
+ * 暂停朗读
+ */
+export function pauseReadAloud() {
+    if (currentAudio) {
+        currentAudio.pause();
+    } else if (isBrowserSpeechSupported()) {
+        window.speechSynthesis.pause();
+    }
+    readAloudState.update(state => (state.status === 'playing' ? { ...state, status: 'paused' } : state));
+}
+
+/**
+ * 继续朗读
+ */
+export function resumeReadAloud() {
+    if (currentAudio) {
+        currentAudio.play().catch(error => console.error('Resume playback error:', error));
+    } else if (isBrowserSpeechSupported()) {
+        window.speechSynthesis.resume();
+    }
+    readAloudState.update(state => (state.status === 'paused' ? { ...state, status: 'playing' } : state));
+}
+
+/**
+ * 停止朗读
+ */
+export function stopReadAloud() {
+    readAloudSession++;
+    readAloudController?.abort();
+    readAloudController = null;
+    finishPlayback?.();
+    readAloudState.set({ status: 'idle' });
+}
@@ -0,0 +1,364 @@
+/**
+ * Token 计数工具
+ * 使用离线 BPE 分词器（o200k_base / cl100k_base）计算 OpenAI 模型的 token 数，
+ * Gemini、Claude 等未公开分词器的模型在此基础上按比例近似
+ */
+
+import { Tiktoken } from 'js-tiktoken/lite';
+import type { ContextDocument, Message } from '../ai-chat';
+
+export type TokenizerEncoding = 'o200k_base' | 'cl100k_base';
+
+export interface TokenizerProfile {
+    encoding: TokenizerEncoding;
+    ratio: number; // 相对基础分词器的修正系数，精确计数时为 1
+}
+
+// 每条消息的格式开销（角色标记等），参考 OpenAI 的计算方式
+const TOKENS_PER_MESSAGE = 4;
+// 回复起始标记的开销
+const TOKENS_PER_REPLY = 3;
+// 单张图片的估算 token 数（按 1024x1024 高清图估算）
+export const IMAGE_TOKEN_ESTIMATE = 765;
+// 未设置最大输出 token 时，为回复预留的 token 数
+export const DEFAULT_OUTPUT_RESERVE = 4096;
+
+// 截断内容时附加的提示
+const TRUNCATED_MARKER = '\n\n...（内容超出模型上下文窗口，已截断）';
+// 截断位置在代码块内时补上的结束标记
+const CLOSING_FENCE = '\n```';
+
+type TiktokenRanks = ConstructorParameters<typeof Tiktoken>[0];
+
+// 词表体积较大（o200k_base 约 2.3 MB），首次使用时再加载，不随插件启动加载
+const RANK_LOADERS: Record<TokenizerEncoding, () => Promise<{ default: TiktokenRanks }>> = {
+    o200k_base: () => import('js-tiktoken/ranks/o200k_base'),
+    cl100k_base: () => import('js-tiktoken/ranks/cl100k_base')
+};
+
+const encoders: Partial<Record<TokenizerEncoding, Tiktoken>> = {};
+const pendingEncoders: Partial<Record<TokenizerEncoding, Promise<Tiktoken>>> = {};
+
+function loadEncoder(encoding: TokenizerEncoding): Promise<Tiktoken> {
+    if (!pendingEncoders[encoding]) {
+        pendingEncoders[encoding] = RANK_LOADERS[encoding]()
+            .then(module => {
+                encoders[encoding] = new Tiktoken(module.default);
+                return encoders[encoding]!;
+            })
+            .catch(error => {
+                // 加载失败时允许下次重试
+                delete pendingEncoders[encoding];
+                throw error;
+            });
+    }
+    return pendingEncoders[encoding]!;
+}
+
+/**
+ * 获取已加载的分词器，未加载时开始加载并返回 null，调用方先按字符估算
+ */
+function getEncoder(encoding: TokenizerEncoding): Tiktoken | null {
+    if (!encoders[encoding]) {
+        loadEncoder(encoding).catch(error => console.error('Failed to load tokenizer:', error));
+        return null;
+    }
+    return encoders[encoding]!;
+}
+
+/**
+ * 预先加载模型对应的分词器，需要精确计数时（如裁剪上下文前）调用
+ */
+export async function loadTokenizer(modelId?: string): Promise<void> {
+    await loadEncoder(getTokenizerProfile(modelId).encoding);
+}
+
+/**
+ * 分词器加载前的字符估算：1个中文字符约1.5个token，1个英文单词约1个token，其他字符约0.5个token
+ */
+function estimateTokensByChars(text: string): number {
+    const chineseChars = (text.match(/[\u4e00-\u9fa5]/g) || []).length;
+    const englishWords = (text.match(/[a-zA-Z]+/g) || []).length;
+    const otherChars = text.length - chineseChars - (text.match(/[a-zA-Z\s]/g) || []).length;
+    return Math.ceil(chineseChars * 1.5 + englishWords + otherChars * 0.5);
+}
+
+/**
+ * 根据模型ID选择分词器
+ */
+export function getTokenizerProfile(modelId: string = ''): TokenizerProfile {
+    const id = (modelId.split('/').pop() || '').toLowerCase();
+
+    // GPT-4o / 4.1 / 5 / o 系列使用 o200k_base
+    if (/gpt-4o|gpt-4\.[15]|gpt-5|chatgpt|gpt-oss|^o[1-9]\b/.test(id)) {
+        return { encoding: 'o200k_base', ratio: 1 };
+    }
+
+    // GPT-4 / GPT-3.5 / embedding 模型使用 cl100k_base
+    if (/gpt-4|gpt-3\.5|text-embedding/.test(id)) {
+        return { encoding: 'cl100k_base', ratio: 1 };
+    }
+
+    // Claude 分词器未公开，实测比 cl100k_base 多约 20%
+    if (/claude/.test(id)) {
+        return { encoding: 'cl100k_base', ratio: 1.2 };
+    }
+
+    // Gemini 使用 SentencePiece，与 o200k_base 接近，略加余量
+    if (/gemini|gemma/.test(id)) {
+        return { encoding: 'o200k_base', ratio: 1.1 };
+    }
+
+    // 其他模型（DeepSeek、Qwen、Kimi 等）使用 o200k_base 近似，略加余量
+    return { encoding: 'o200k_base', ratio: 1.1 };
+}
+
+/**
+ * 计算文本的 token 数（分词器未加载时按字符估算）
+ */
+export function countTokens(text: string, modelId?: string): number {
+    if (!text) return 0;
+    const profile = getTokenizerProfile(modelId);
+    const encoder = getEncoder(profile.encoding);
+    if (!encoder) return estimateTokensByChars(text);
+    // 特殊标记（如 <|endoftext|>）按普通文本处理
+    return Math.ceil(encoder.encode(text, [], []).length * profile.ratio);
+}
+
+/**
+ * 截断文本，使其不超过指定的 token 数
+ */
+export function truncateTextToTokens(text: string, maxTokens: number, modelId?: string): string {
+    const profile = getTokenizerProfile(modelId);
+    const encoder = getEncoder(profile.encoding);
+    if (!encoder) {
+        // 分词器未加载时按估算的比例截断字符，去掉被截断的代理对
+        const estimated = estimateTokensByChars(text);
+        if (estimated <= maxTokens) return text;
+        const length = Math.floor((text.length * Math.max(0, maxTokens)) / estimated);
+        return text.slice(0, length).replace(/[\uD800-\uDBFF]$/, '');
+    }
+    const limit = Math.max(0, Math.floor(maxTokens / profile.ratio));
+    const tokens = encoder.encode(text, [], []);
+    if (tokens.length <= limit) return text;
+    // 去掉被截断的多字节字符
+    return encoder.decode(tokens.slice(0, limit)).replace(/\uFFFD+$/, '');
+}
+
+/**
+ * 计算单条消息的 token 数（包含图片和工具调用）
+ */
+export function countMessageTokens(message: Message, modelId?: string): number {
+    let tokens = TOKENS_PER_MESSAGE;
+
+    if (typeof message.content === 'string') {
+        tokens += countTokens(message.content, modelId);
+    } else if (Array.isArray(message.content)) {
+        for (const part of message.content) {
+            if (part.type === 'text' && part.text) {
+                tokens += countTokens(part.text, modelId);
+            } else if (part.type === 'image_url') {
+                tokens += IMAGE_TOKEN_ESTIMATE;
+            } else if (part.type === 'file' && part.file?.text) {
+                // 原生发送的 PDF 按提取的文本估算
+                tokens += countTokens(part.file.text, modelId);
+            }
+        }
+    }
+
+    if (message.reasoning_content) {
+        tokens += countTokens(message.reasoning_content, modelId);
+    }
+
+    for (const toolCall of message.tool_calls || []) {
+        tokens += countTokens(toolCall.function.name + toolCall.function.arguments, modelId);
+    }
+
+    return tokens;
+}
+
+/**
+ * 计算消息列表的总 token 数
+ */
+export function countMessagesTokens(messages: Message[], modelId?: string): number {
+    if (messages.length === 0) return 0;
+    return (
+        messages.reduce((total, msg) => total + countMessageTokens(msg, modelId), 0) +
+        TOKENS_PER_REPLY
+    );
+}
+
+/**
+ * 计算可用于输入的 token 预算（上下文窗口减去为回复预留的部分）
+ */
+export function getInputTokenBudget(contextLength: number, maxOutputTokens?: number): number {
+    const reserve = maxOutputTokens && maxOutputTokens > 0 ? maxOutputTokens : DEFAULT_OUTPUT_RESERVE;
+    // 最大输出配置过大时，至少保留一半窗口给输入
+    return Math.max(Math.floor(contextLength / 2), contextLength - reserve);
+}
+
+export interface ContextFitResult {
+    messages: Message[];
+    droppedCount: number; // 丢弃的历史消息数量
+    droppedDocuments: string[]; // 从最后一条消息中移除的上下文文档标题
+    truncated: boolean; // 是否截断了最后一条消息的内容
+    tokens: number; // 处理后的 token 数
+}
+
+/**
+ * 最后一条消息附带的上下文文档
+ * 消息文本（或其中一段文本）以 render(documents) 的结果结尾，移除文档后用 render 重新生成这段文本
+ */
+export interface MessageContextDocuments {
+    documents: ContextDocument[]; // 按添加顺序排列
+    render: (documents: ContextDocument[]) => string; // 没有文档时应返回空字符串
+}
+
+/**
+ * 截断位置在代码块内时补上结束标记，避免后续内容被当作代码
+ */
+function closeCodeFence(text: string): string {
+    const fences = text.match(/^ {0,3}(`{3,}|~{3,})/gm) || [];
+    return fences.length % 2 === 1 ? text + CLOSING_FENCE : text;
+}
+
+/**
+ * 按添加顺序逐个移除文本末尾的上下文文档（最早添加的先移除），直到节省的 token 数达到 overflow
+ * 文本不以这些文档的内容结尾时返回 null
+ */
+function dropContextDocuments(
+    text: string,
+    overflow: number,
+    context: MessageContextDocuments,
+    modelId?: string
+): { text: string; dropped: string[] } | null {
+    const rendered = context.render(context.documents);
+    if (!rendered || !text.endsWith(rendered)) return null;
+
+    const prefix = text.slice(0, text.length - rendered.length);
+    const textTokens = countTokens(text, modelId);
+    const kept = [...context.documents];
+    const dropped: string[] = [];
+    let result = text;
+    while (kept.length > 0 && textTokens - countTokens(result, modelId) < overflow) {
+        dropped.push(kept.shift()!.title);
+        result = prefix + context.render(kept);
+    }
+    return { text: result, dropped };
+}
+
+/**
+ * 按 token 预算裁剪消息列表
+ * 1. 保留系统消息和最后一条消息，从最早的消息开始丢弃，工具调用结果随调用一起丢弃
+ * 2. 仍然超出时按添加顺序移除最后一条消息附带的上下文文档（最早添加的先移除）
+ * 3. 仍然超出时截断最后一条消息中最长的文本，截断位置在代码块内时补上结束标记
+ */
+export function fitMessagesToTokenBudget(
+    messages: Message[],
+    budget: number,
+    modelId?: string,
+    context?: MessageContextDocuments
+): ContextFitResult {
+    const systemMessages = messages.filter(msg => msg.role === 'system');
+    const rest = messages.filter(msg => msg.role !== 'system');
+    const restTokens = rest.map(msg => countMessageTokens(msg, modelId));
+
+    let total =
+        systemMessages.reduce((sum, msg) => sum + countMessageTokens(msg, modelId), 0) +
+        restTokens.reduce((sum, tokens) => sum + tokens, 0) +
+        TOKENS_PER_REPLY;
+    let droppedCount = 0;
+
+    const dropFirst = () => {
+        rest.shift();
+        total -= restTokens.shift() || 0;
+        droppedCount++;
+    };
+
+    while (total > budget && rest.length > 1) {
+        dropFirst();
+        // 对话需要以用户消息开头，同时移除失去对应调用的工具结果
+        while (rest.length > 1 && rest[0].role !== 'user') {
+            dropFirst();
+        }
+    }
+
+    const droppedDocuments: string[] = [];
+    if (total > budget && rest.length > 0 && context && context.documents.length > 0) {
+        const lastIndex = rest.length - 1;
+        const lastMessage = { ...rest[lastIndex] };
+        const overflow = total - budget;
+
+        if (typeof lastMessage.content === 'string') {
+            const result = dropContextDocuments(lastMessage.content, overflow, context, modelId);
+            if (result) {
+                lastMessage.content = result.text;
+                droppedDocuments.push(...result.dropped);
+            }
+        } else if (Array.isArray(lastMessage.content)) {
+            lastMessage.content = lastMessage.content.map(part => {
+                if (part.type !== 'text' || !part.text || droppedDocuments.length > 0) return part;
+                const result = dropContextDocuments(part.text, overflow, context, modelId);
+                if (!result) return part;
+                droppedDocuments.push(...result.dropped);
+                return { ...part, text: result.text };
+            });
+        }
+
+        if (droppedDocuments.length > 0) {
+            rest[lastIndex] = lastMessage;
+            total = countMessagesTokens([...systemMessages, ...rest], modelId);
+        }
+    }
+
+    let truncated = false;
+    if (total > budget && rest.length > 0) {
+        const lastIndex = rest.length - 1;
+        const lastMessage = { ...rest[lastIndex] };
+        const overflow = total - budget;
+        const markerTokens = countTokens(CLOSING_FENCE + TRUNCATED_MARKER, modelId);
+        const truncate = (text: string, keepTokens: number) =>
+            closeCodeFence(truncateTextToTokens(text, keepTokens, modelId)) + TRUNCATED_MARKER;
+
+        if (typeof lastMessage.content === 'string') {
+            const textTokens = countTokens(lastMessage.content, modelId);
+            lastMessage.content = truncate(lastMessage.content, textTokens - overflow - markerTokens);
+            truncated = true;
+        } else if (Array.isArray(lastMessage.content)) {
+            // 截断最长的文本片段
+            const parts = lastMessage.content.map(part => ({ ...part }));
+            let longestIndex = -1;
+            let longestTokens = 0;
+            parts.forEach((part, index) => {
+                if (part.type === 'text' && part.text) {
+                    const tokens = countTokens(part.text, modelId);
+                    if (tokens > longestTokens) {
+                        longestTokens = tokens;
+                        longestIndex = index;
+                    }
+                }
+            });
+            if (longestIndex !== -1) {
+                parts[longestIndex].text = truncate(
+                    parts[longestIndex].text!,
+                    longestTokens - overflow - markerTokens
+                );
+                lastMessage.content = parts;
+                truncated = true;
+            }
+        }
+
+        if (truncated) {
+            rest[lastIndex] = lastMessage;
+            total = countMessagesTokens([...systemMessages, ...rest], modelId);
+        }
+    }
+
+    return {
+        messages: [...systemMessages, ...rest],
+        droppedCount,
+        droppedDocuments,
+        truncated,
+        tokens: total
+    };
+}
@@ -0,0 +1,386 @@
+/**
+ * Token 用量与费用统计
+ * 用量保存在插件存储的 usage-log.json 中，每次请求累加到当天对应平台、模型的记录上
+ */
+
+import type { Plugin } from 'siyuan';
+import type { MessageUsage, TokenUsage } from '../ai-chat';
+import { getModelRegistryInfo } from './modelRegistry';
+
+// 模型价格（美元 / 百万 token）
+export interface ModelPrice {
+    input: number;
+    output: number;
+    cachedInput?: number; // 命中缓存的输入价格，为空时按输入价格计算
+    cacheWrite?: number; // 写入缓存的输入价格（Claude），为空时按输入价格计算
+}
+
+// 某一天某个模型的用量汇总
+export interface UsageRecord {
+    time: number; // 当天零点的时间戳
+    provider: string;
+    modelId: string;
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+    cachedInputTokens: number;
+    cost: number; // 已知价格的请求的费用（美元）
+    unpricedRequests: number; // 未知价格的请求数
+}
+
+// 一次请求的用量，旧版本按请求保存的记录也是这个格式
+interface RequestUsage {
+    time: number;
+    provider: string;
+    modelId: string;
+    inputTokens: number;
+    outputTokens: number;
+    cachedInputTokens?: number;
+    cost?: number; // 费用（美元），未知价格时为空
+}
+
+export type UsageGroupBy = 'day' | 'provider' | 'model';
+
+export interface UsageSummary {
+    key: string; // 日期（YYYY-MM-DD）、平台ID 或 平台ID::模型ID
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+    cachedInputTokens: number;
+    cost: number;
+    unpricedRequests: number; // 未知价格的请求数
+}
+
+export interface UsageCapSettings {
+    usageMonthlyCap?: number; // 每月总费用上限（美元），0 或为空表示不限制
+    usageProviderCaps?: Record<string, number>; // 各平台每月费用上限
+}
+
+export interface MonthlyCapStatus {
+    provider?: string; // 为空表示总上限
+    cap: number;
+    spent: number;
+    exceeded: boolean; // 已达到上限，否则为接近上限
+}
+
+export const USAGE_LOG_FILE = 'usage-log.json';
+// 用量记录保留天数
+const USAGE_RETENTION_DAYS = 400;
+// 本月费用达到上限的该比例时提示
+const CAP_WARNING_RATIO = 0.8;
+
+/**
+ * 生成价格表中使用的模型键
+ */
+export function getModelPriceKey(provider: string, modelId: string): string {
+    return `${provider}::${modelId}`;
+}
+
+/**
+ * 获取模型信息库中的价格，未知模型返回 undefined
+ */
+export function getDefaultModelPrice(provider: string, modelId: string): ModelPrice | undefined {
+    // 本地模型不产生费用
+    if (provider === 'local') {
+        return { input: 0, output: 0 };
+    }
+    return getModelRegistryInfo(modelId).price;
+}
+
+/**
+ * 获取模型价格，用户配置的价格优先
+ */
+export function getModelPrice(
+    provider: string,
+    modelId: string,
+    customPrices?: Record<string, ModelPrice>
+): ModelPrice | undefined {
+    return customPrices?.[getModelPriceKey(provider, modelId)] || getDefaultModelPrice(provider, modelId);
+}
+
+/**
+ * 按价格计算一次请求的费用（美元）
+ */
+export function calculateCost(usage: TokenUsage, price: ModelPrice): number {
+    const cachedTokens = Math.min(usage.cachedInputTokens || 0, usage.inputTokens);
+    const cacheWriteTokens = Math.min(usage.cacheWriteInputTokens || 0, usage.inputTokens - cachedTokens);
+    const cachedPrice = price.cachedInput ?? price.input;
+    const cacheWritePrice = price.cacheWrite ?? price.input;
+    return (
+        ((usage.inputTokens - cachedTokens - cacheWriteTokens) * price.input +
+            cachedTokens * cachedPrice +
+            cacheWriteTokens * cacheWritePrice +
+            usage.outputTokens * price.output) /
+        1_000_000
+    );
+}
+
+/**
+ * 创建消息上记录的用量，未知价格时不计算费用
+ */
+export function createMessageUsage(
+    provider: string,
+    modelId: string,
+    usage: TokenUsage,
+    customPrices?: Record<string, ModelPrice>
+): MessageUsage {
+    const price = getModelPrice(provider, modelId, customPrices);
+    return {
+        ...usage,
+        provider,
+        modelId,
+        cost: price ? calculateCost(usage, price) : undefined
+    };
+}
+
+/**
+ * 合并多轮请求的用量（Agent 模式）
+ */
+export function mergeMessageUsage(
+    previous: MessageUsage | undefined,
+    current: MessageUsage
+): MessageUsage {
+    if (!previous) return current;
+    const sumOptional = (a?: number, b?: number) =>
+        a === undefined && b === undefined ? undefined : (a || 0) + (b || 0);
+    return {
+        ...current,
+        inputTokens: previous.inputTokens + current.inputTokens,
+        outputTokens: previous.outputTokens + current.outputTokens,
+        cachedInputTokens: sumOptional(previous.cachedInputTokens, current.cachedInputTokens),
+        cacheWriteInputTokens: sumOptional(
+            previous.cacheWriteInputTokens,
+            current.cacheWriteInputTokens
+        ),
+        reasoningTokens: sumOptional(previous.reasoningTokens, current.reasoningTokens),
+        cost: sumOptional(previous.cost, current.cost)
+    };
+}
+
+// 用量记录缓存，同一插件实例内的侧栏和设置面板共享
+let cachedRecords: UsageRecord[] | null = null;
+// 串行写入，避免多模型同时完成时互相覆盖
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * 获取当天零点的时间戳
+ */
+function getDayStart(time: number): number {
+    const date = new Date(time);
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+}
+
+/**
+ * 将一次请求的用量累加到当天对应模型的记录上
+ */
+function addRequestUsage(records: UsageRecord[], usage: RequestUsage): void {
+    const time = getDayStart(usage.time);
+    let record = records.find(
+        r => r.time === time && r.provider === usage.provider && r.modelId === usage.modelId
+    );
+    if (!record) {
+        record = {
+            time,
+            provider: usage.provider,
+            modelId: usage.modelId,
+            requests: 0,
+            inputTokens: 0,
+            outputTokens: 0,
+            cachedInputTokens: 0,
+            cost: 0,
+            unpricedRequests: 0
+        };
+        records.push(record);
+    }
+    record.requests++;
+    record.inputTokens += usage.inputTokens;
+    record.outputTokens += usage.outputTokens;
+    record.cachedInputTokens += usage.cachedInputTokens || 0;
+    if (usage.cost === undefined) {
+        record.unpricedRequests++;
+    } else {
+        record.cost += usage.cost;
+    }
+}
+
+/**
+ * 读取全部用量记录
+ */
+export async function loadUsageRecords(plugin: Plugin): Promise<UsageRecord[]> {
+    if (cachedRecords) return cachedRecords;
+    try {
+        const data = await plugin.loadData(USAGE_LOG_FILE);
+        const records: Array<UsageRecord | RequestUsage> = Array.isArray(data?.records)
+            ? data.records
+            : [];
+        // 迁移：旧版本每次请求保存一条记录，按天汇总
+        cachedRecords = [];
+        for (const record of records) {
+            if ('requests' in record) {
+                cachedRecords.push(record);
+            } else {
+                addRequestUsage(cachedRecords, record);
+            }
+        }
+    } catch (error) {
+        console.error('Load usage records error:', error);
+        cachedRecords = [];
+    }
+    return cachedRecords;
+}
+
+/**
+ * 记录一次请求的用量，同时清理过期记录
+ */
+export function appendUsageRecord(plugin: Plugin, usage: MessageUsage): Promise<void> {
+    const requestUsage: RequestUsage = {
+        time: Date.now(),
+        provider: usage.provider,
+        modelId: usage.modelId,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        cachedInputTokens: usage.cachedInputTokens,
+        cost: usage.cost
+    };
+    writeQueue = writeQueue.then(async () => {
+        try {
+            const expireTime = Date.now() - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+            const records = (await loadUsageRecords(plugin)).filter(r => r.time >= expireTime);
+            addRequestUsage(records, requestUsage);
+            cachedRecords = records;
+            await plugin.saveData(USAGE_LOG_FILE, { records });
+        } catch (error) {
+            console.error('Save usage record error:', error);
+        }
+    });
+    return writeQueue;
+}
+
+/**
+ * 清空用量记录
+ */
+export function clearUsageRecords(plugin: Plugin): Promise<void> {
+    writeQueue = writeQueue.then(async () => {
+        cachedRecords = [];
+        await plugin.saveData(USAGE_LOG_FILE, { records: [] });
+    });
+    return writeQueue;
+}
+
+/**
+ * 格式化为本地日期（YYYY-MM-DD）
+ */
+function formatDay(time: number): string {
+    const date = new Date(time);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * 获取本月第一天零点的时间戳
+ */
+export function getMonthStart(now: Date = new Date()): number {
+    return new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+}
+
+/**
+ * 按日期、平台或模型汇总用量
+ * 日期按时间倒序，平台和模型按费用倒序
+ */
+export function aggregateUsage(records: UsageRecord[], groupBy: UsageGroupBy): UsageSummary[] {
+    const summaries = new Map<string, UsageSummary>();
+    for (const record of records) {
+        const key =
+            groupBy === 'day'
+                ? formatDay(record.time)
+                : groupBy === 'provider'
+                  ? record.provider
+                  : getModelPriceKey(record.provider, record.modelId);
+        let summary = summaries.get(key);
+        if (!summary) {
+            summary = {
+                key,
+                requests: 0,
+                inputTokens: 0,
+                outputTokens: 0,
+                cachedInputTokens: 0,
+                cost: 0,
+                unpricedRequests: 0
+            };
+            summaries.set(key, summary);
+        }
+        summary.requests += record.requests;
+        summary.inputTokens += record.inputTokens;
+        summary.outputTokens += record.outputTokens;
+        summary.cachedInputTokens += record.cachedInputTokens;
+        summary.cost += record.cost;
+        summary.unpricedRequests += record.unpricedRequests;
+    }
+
+    const result = [...summaries.values()];
+    if (groupBy === 'day') {
+        return result.sort((a, b) => b.key.localeCompare(a.key));
+    }
+    return result.sort(
+        (a, b) => b.cost - a.cost || b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens)
+    );
+}
+
+/**
+ * 计算本月费用，可按平台筛选
+ */
+export function getMonthlySpend(records: UsageRecord[], provider?: string): number {
+    const monthStart = getMonthStart();
+    return records
+        .filter(r => r.time >= monthStart && (!provider || r.provider === provider))
+        .reduce((sum, r) => sum + r.cost, 0);
+}
+
+/**
+ * 检查本月费用是否已达到或接近总上限、平台上限
+ * 已达到的上限优先返回，都未接近时返回 null
+ */
+export async function checkMonthlyCaps(
+    plugin: Plugin,
+    settings: UsageCapSettings,
+    provider: string
+): Promise<MonthlyCapStatus | null> {
+    const totalCap = settings.usageMonthlyCap || 0;
+    const providerCap = settings.usageProviderCaps?.[provider] || 0;
+    if (totalCap <= 0 && providerCap <= 0) return null;
+
+    const records = await loadUsageRecords(plugin);
+    const statuses: MonthlyCapStatus[] = [];
+    if (providerCap > 0) {
+        const spent = getMonthlySpend(records, provider);
+        statuses.push({ provider, cap: providerCap, spent, exceeded: spent >= providerCap });
+    }
+    if (totalCap > 0) {
+        const spent = getMonthlySpend(records);
+        statuses.push({ cap: totalCap, spent, exceeded: spent >= totalCap });
+    }
+    return (
+        statuses.find(status => status.exceeded) ||
+        statuses.find(status => status.spent >= status.cap * CAP_WARNING_RATIO) ||
+        null
+    );
+}
+
+/**
+ * 格式化费用显示
+ */
+export function formatCost(cost: number): string {
+    if (cost === 0) return '$0';
+    if (cost < 0.01) return `$${cost.toFixed(4)}`;
+    return `$${cost.toFixed(2)}`;
+}
+
+/**
+ * 格式化 token 数显示（如 1.2k、3.4M）
+ */
+export function formatTokenCount(tokens: number): string {
+    if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+    if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}k`;
+    return String(tokens);
+}
@@ -14,6 +14,7 @@ const isSrcmap = env.VITE_SOURCEMAP === 'inline';
 const isDev = env.NODE_ENV === 'development';
 
 const outputDir = isDev ? "dev" : "dist";
+const pluginInfo = JSON.parse(fs.readFileSync("./plugin.json", "utf-8"));
 
 console.log("isDev=>", isDev);
 console.log("isSrcmap=>", isSrcmap);
@@ -80,6 +81,10 @@ export default defineConfig({
         },
         rollupOptions: {
             plugins: [
+                loadChunksFromPluginDir({
+                    name: pluginInfo.name,
+                    version: pluginInfo.version
+                }),
                 ...(isDev ? [
                     {
                         name: 'watch-external',
@@ -113,6 +118,8 @@ export default defineConfig({
 
             output: {
                 entryFileNames: "[name].js",
+                // Lazily loaded chunks, overwritten on each build (emptyOutDir is false)
+                chunkFileNames: "chunks/[name].js",
                 assetFileNames: (assetInfo) => {
                     if (assetInfo.name === "style.css") {
                         return "index.css"
@@ -178,4 +185,32 @@ function cleanupDistFiles(options: { patterns: string[], distDir: string }) {
             }
         }
     };
+}
+
+
+/**
+ * SiYuan evaluates the plugin entry as CommonJS, and its `require` only resolves "siyuan",
+ * so chunks split out by dynamic import() cannot be required from the plugin directory.
+ * Fetch the chunk from /plugins/<name>/ instead and evaluate it the same way.
+ * @param options: plugin name and version (used to bust the cache after upgrades)
+ * @returns 
+ */
+function loadChunksFromPluginDir(options: { name: string, version: string }) {
+    const { name, version } = options;
+
+    return {
+        name: 'load-chunks-from-plugin-dir',
+        renderDynamicImport() {
+            return {
+                left: `(async chunk => {
+                    const response = await fetch("/plugins/${name}/" + chunk.replace(/^\\.\\//, "") + "?v=${version}");
+                    if (!response.ok) throw new Error("Failed to load chunk: " + chunk);
+                    const module = { exports: {} };
+                    new Function("require", "module", "exports", await response.text())(require, module, module.exports);
+                    return module.exports;
+                })(`,
+                right: ')'
+            };
+        }
+    };
 }
\ No newline at end of file